@@ -10,6 +10,7 @@
 
 import type * as app from "../app.js";
 import type * as constants from "../constants.js";
+import type * as crons from "../crons.js";
 import type * as http from "../http.js";
 import type * as seed from "../seed.js";
 
@@ -22,6 +23,7 @@ import type {
 declare const fullApi: ApiFromModules<{
   app: typeof app;
   constants: typeof constants;
+  crons: typeof crons;
   http: typeof http;
   seed: typeof seed;
 }>;
@@ -8,11 +8,12 @@
  * This demonstrates the "dual-write" pattern where your app
  * maintains its own data AND mirrors permissions to Zanvex.
  */
-import { mutation, query } from "./_generated/server.js";
+import { internalMutation, mutation, query } from "./_generated/server.js";
 import { api, components } from "./_generated/api.js";
 import { createZanvexClient } from "@mrfinch/zanvex";
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
-import { PERMISSIONS, RELATION_NAMES, OBJECT_TYPES } from "./constants.js";
+import { DEMO_SCHEMA, PERMISSIONS, RELATION_NAMES } from "./constants.js";
 
 const zanvex = createZanvexClient(components.zanvex);
 
@@ -297,6 +298,58 @@ export const listResources = query({
   },
 });
 
+/**
+ * Move a resource to another org
+ *
+ * Swaps the owner tuple in one atomic writeTuples call, so the resource is
+ * never ownerless (or owned by both orgs) in between. The precondition
+ * rejects the transfer if Zanvex doesn't agree on the current owner.
+ */
+export const transferResource = mutation({
+  args: {
+    resourceId: v.id("resources"),
+    orgId: v.id("orgs"),
+  },
+  handler: async (ctx, { resourceId, orgId }) => {
+    const resource = await ctx.db.get(resourceId);
+    if (!resource) throw new Error("Resource not found");
+    if (resource.orgId === orgId) return;
+
+    // 1. Update app table
+    await ctx.db.patch(resourceId, { orgId });
+
+    // 2. Replace ownership in Zanvex
+    await zanvex.writeTuples(ctx, [
+      {
+        operation: "delete",
+        object: { type: "resource", id: resourceId },
+        relation: "owner",
+        subject: { type: "org", id: resource.orgId },
+      },
+      {
+        operation: "touch",
+        object: { type: "resource", id: resourceId },
+        relation: "owner",
+        subject: { type: "org", id: orgId },
+      },
+    ], {
+      preconditions: [
+        {
+          operation: "mustMatch",
+          filter: {
+            objectType: "resource",
+            objectId: resourceId,
+            relation: "owner",
+            subjectType: "org",
+            subjectId: resource.orgId,
+            subjectRelation: null,
+          },
+        },
+      ],
+    });
+  },
+});
+
 /**
  * Delete a resource
  */
@@ -485,6 +538,33 @@ export const getBookingPermissions = query({
   },
 });
 
+/**
+ * List bookings a user can perform an action on
+ *
+ * Authorizes the whole list with one canMany query instead of one
+ * can query per row.
+ */
+export const listBookingsForUser = query({
+  args: {
+    userId: v.id("users"),
+    action: v.string(),
+  },
+  handler: async (ctx, { userId, action }) => {
+    const bookings = await ctx.db.query("bookings").collect();
+
+    const results = await zanvex.canMany(
+      ctx,
+      bookings.map((b) => ({
+        subject: { type: "user", id: userId },
+        action,
+        object: { type: "booking", id: b._id },
+      }))
+    );
+
+    return bookings.filter((_, i) => results[i].allowed);
+  },
+});
+
 /**
  * Get org permissions for a user
  */
@@ -508,8 +588,9 @@ export const getOrgPermissions = query({
 /**
  * Check if a user can manage a resource
  *
- * This is the magic: Zanvex traverses
- * user → admin_of → org → owner → resource
+ * This is the magic: Zanvex evaluates the resource.update rule
+ * ("owner->admin_of | owner->member_of"), traversing
+ * user → admin_of/member_of → org → owner → resource
  */
 export const canUserManageResource = query({
   args: {
@@ -517,11 +598,10 @@ export const canUserManageResource = query({
     resourceId: v.id("resources"),
   },
   handler: async (ctx, { userId, resourceId }) => {
-    // Use Zanvex's 1-hop traversal
     const canManage = await zanvex.check(
       ctx,
       { type: "resource", id: resourceId },
-      "owner",
+      "update",
       { type: "user", id: userId }
     );
 
@@ -579,88 +659,52 @@ export const isUserOrgMember = query({
 // ============================================
 
 /**
- * Get all Zanvex tuples (for debugging)
+ * Page through all Zanvex tuples, with readable names (for debugging)
  */
 export const getAllTuples = query({
-  args: {},
-  handler: async (ctx) => {
-    // This is a bit hacky - we're querying the component's table directly
-    // In a real app, you'd use listTuplesForObject or listRelations
-    // For the test harness, we want to see everything
+  args: {
+    objectType: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { objectType, paginationOpts }) => {
+    const result = await zanvex.readTuples(ctx, { objectType }, paginationOpts);
+
     const users = await ctx.db.query("users").collect();
     const orgs = await ctx.db.query("orgs").collect();
     const resources = await ctx.db.query("resources").collect();
     const bookings = await ctx.db.query("bookings").collect();
 
-    const allTuples: Array<{
-      object: string;
-      relation: string;
-      subject: string;
-    }> = [];
-
-    // Helper to resolve subject to human-readable name
-    const resolveSubject = (subjectType: string, subjectId: string) => {
-      if (subjectType === "user") {
-        const user = users.find((u) => u._id === subjectId);
-        return `user:${user?.name ?? subjectId}`;
+    // Helper to resolve an object or subject to a human-readable name
+    const resolve = (type: string, id: string) => {
+      if (type === "user") {
+        const user = users.find((u) => u._id === id);
+        return `user:${user?.name ?? id}`;
       }
-      if (subjectType === "org") {
-        const org = orgs.find((o) => o._id === subjectId);
-        return `org:${org?.name ?? subjectId}`;
+      if (type === "org") {
+        const org = orgs.find((o) => o._id === id);
+        return `org:${org?.name ?? id}`;
       }
-      if (subjectType === "resource") {
-        const resource = resources.find((r) => r._id === subjectId);
-        return `resource:${resource?.name ?? subjectId}`;
+      if (type === "resource") {
+        const resource = resources.find((r) => r._id === id);
+        return `resource:${resource?.name ?? id}`;
       }
-      return `${subjectType}:${subjectId}`;
-    };
-
-    // Get tuples for each org
-    for (const org of orgs) {
-      const tuples = await zanvex.listTuplesForObject(ctx, {
-        type: "org",
-        id: org._id,
-      });
-      for (const t of tuples) {
-        allTuples.push({
-          object: `org:${org.name}`,
-          relation: t.relation,
-          subject: resolveSubject(t.subjectType, t.subjectId),
-        });
+      if (type === "booking") {
+        const booking = bookings.find((b) => b._id === id);
+        return `booking:${booking?.title ?? id}`;
       }
-    }
-
-    // Get tuples for each resource
-    for (const resource of resources) {
-      const tuples = await zanvex.listTuplesForObject(ctx, {
-        type: "resource",
-        id: resource._id,
-      });
-      for (const t of tuples) {
-        allTuples.push({
-          object: `resource:${resource.name}`,
-          relation: t.relation,
-          subject: resolveSubject(t.subjectType, t.subjectId),
-        });
-      }
-    }
-
-    // Get tuples for each booking
-    for (const booking of bookings) {
-      const tuples = await zanvex.listTuplesForObject(ctx, {
-        type: "booking",
-        id: booking._id,
-      });
-      for (const t of tuples) {
-        allTuples.push({
-          object: `booking:${booking.title}`,
-          relation: t.relation,
-          subject: resolveSubject(t.subjectType, t.subjectId),
-        });
-      }
-    }
+      return `${type}:${id}`;
+    };
 
-    return allTuples;
+    return {
+      ...result,
+      page: result.page.map((t) => ({
+        object: resolve(t.objectType, t.objectId),
+        relation: t.relation,
+        subject:
+          resolve(t.subjectType, t.subjectId) +
+          (t.subjectRelation !== undefined ? `#${t.subjectRelation}` : ""),
+      })),
+    };
   },
 });
 
@@ -668,84 +712,6 @@ export const getAllTuples = query({
 // PERMISSION RULES (Zanzibar-style DSL)
 // ============================================
 
-/**
- * Initialize permission rules for the example app
- *
- * Sets up Zanzibar-style CRUD rules:
- *   org.read = "admin_of | member_of"
- *   org.update = "admin_of"
- *   org.delete = "admin_of"
- *   resource.create = "owner->admin_of"
- *   resource.read = "owner->admin_of | owner->member_of"
- *   resource.update = "owner->admin_of | owner->member_of"
- *   resource.delete = "owner->admin_of"
- *   booking.create = "parent->update"
- *   booking.read = "parent->read | booker"
- *   booking.update = "parent->update | booker"
- *   booking.delete = "parent->delete"
- */
-export const initializePermissionRules = mutation({
-  args: {},
-  handler: async (ctx) => {
-    // Org permissions - direct member/admin relations
-    await zanvex.definePermission(
-      ctx,
-      "org",
-      "read",
-      "admin_of | member_of"
-    );
-    await zanvex.definePermission(
-      ctx,
-      "org",
-      "update",
-      "admin_of"
-    );
-    await zanvex.definePermission(
-      ctx,
-      "org",
-      "delete",
-      "admin_of"
-    );
-
-    // Resource permissions - check owner org's relations
-    await zanvex.definePermission(
-      ctx,
-      "resource",
-      "create",
-      "owner->admin_of"
-    );
-    await zanvex.definePermission(
-      ctx,
-      "resource",
-      "read",
-      "owner->admin_of | owner->member_of"
-    );
-    await zanvex.definePermission(ctx, "resource", "update", "owner->admin_of | owner->member_of");
-    await zanvex.definePermission(ctx, "resource", "delete", "owner->admin_of");
-
-    // Booking permissions - traverse through parent resource
-    await zanvex.definePermission(
-      ctx,
-      "booking",
-      "create",
-      "parent->update"
-    );
-    await zanvex.definePermission(
-      ctx,
-      "booking",
-      "read",
-      "parent->read | booker"
-    );
-    await zanvex.definePermission(
-      ctx,
-      "booking",
-      "update",
-      "parent->update | booker"
-    );
-    await zanvex.definePermission(ctx, "booking", "delete", "parent->delete");
-  },
-});
-
 /**
  * List all permission rules
  */
@@ -770,6 +736,20 @@ export const definePermissionRule = mutation({
   },
 });
 
+/**
+ * Validate a permission rule while it's being built (no save)
+ */
+export const validatePermissionRule = query({
+  args: {
+    objectType: v.string(),
+    permission: v.string(),
+    expression: v.string(),
+  },
+  handler: async (ctx, { objectType, permission, expression }) => {
+    return await zanvex.validatePermission(ctx, objectType, permission, expression);
+  },
+});
+
 /**
  * Delete a permission rule
  */
@@ -799,6 +779,26 @@ export const getResourcePermissions = query({
   },
 });
 
+/**
+ * List the users who can perform an action on a resource
+ *
+ * Includes users who get access indirectly (e.g. via owner->admin_of),
+ * each with the path that grants it.
+ */
+export const whoCanOnResource = query({
+  args: {
+    resourceId: v.id("resources"),
+    action: v.string(),
+  },
+  handler: async (ctx, { resourceId, action }) => {
+    return await zanvex.lookupSubjects(ctx, {
+      object: { type: "resource", id: resourceId },
+      action,
+      subjectType: "user",
+    });
+  },
+});
+
 /**
  * Check if user can perform specific action on resource
  */
@@ -892,6 +892,22 @@ export const canWithPath = query({
   },
 });
 
+/**
+ * Expand a permission into its full access tree (not tied to a user)
+ *
+ * For the graph page's access tree visualization
+ */
+export const expandPermission = query({
+  args: {
+    objectType: v.string(),
+    objectId: v.string(),
+    permission: v.string(),
+  },
+  handler: async (ctx, { objectType, objectId, permission }) => {
+    return await zanvex.expand(ctx, { type: objectType, id: objectId }, permission);
+  },
+});
+
 // ============================================
 // PERMISSION CATALOG
 // ============================================
@@ -963,8 +979,11 @@ export const registerObjectType = mutation({
     relations: v.array(
       v.object({
         name: v.string(),
-        targetType: v.string(),
+        targetTypes: v.array(
+          v.object({ type: v.string(), relation: v.optional(v.string()) })
+        ),
         description: v.optional(v.string()),
+        allowWildcard: v.optional(v.boolean()),
       })
     ),
   },
@@ -1038,14 +1057,14 @@ export const initializeRelationCatalog = mutation({
 });
 
 /**
- * Initialize example object types for the demo app
+ * Initialize the demo object types and permission rules
+ *
+ * Applies `DEMO_SCHEMA`, so object types and rules not in it are removed.
  */
-export const initializeObjectTypes = mutation({
+export const initializeSchema = mutation({
   args: {},
   handler: async (ctx) => {
-    for (const objType of OBJECT_TYPES) {
-      await zanvex.registerObjectType(ctx, objType);
-    }
+    await zanvex.applySchema(ctx, DEMO_SCHEMA);
   },
 });
 
@@ -1059,11 +1078,22 @@ export const initializeAll = mutation({
     await ctx.runMutation(api.app.initializePermissionCatalog, {});
     await ctx.runMutation(api.app.initializeRelationCatalog, {});
 
-    // Step 2: Initialize object types
-    await ctx.runMutation(api.app.initializeObjectTypes, {});
+    // Step 2: Initialize object types and permission rules
+    await ctx.runMutation(api.app.initializeSchema, {});
+  },
+});
 
-    // Step 3: Initialize permission rules
-    await ctx.runMutation(api.app.initializePermissionRules, {});
+// ============================================
+// MAINTENANCE
+// ============================================
+
+/**
+ * Garbage-collect expired Zanvex tuples (scheduled in crons.ts)
+ */
+export const purgeExpiredTuples = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    return await zanvex.purgeExpired(ctx);
   },
 });
 
@@ -1072,7 +1102,10 @@ export const initializeAll = mutation({
 // ============================================
 
 /**
- * Clear all app data AND Zanvex tuples + rules
+ * Clear all app data AND Zanvex tuples + rules + object types
+ *
+ * App tables are cleared right away; the Zanvex tables are cleared by
+ * background jobs (see listZanvexJobs for progress).
  */
 export const clearAll = mutation({
   args: {},
@@ -1090,14 +1123,12 @@ export const clearAll = mutation({
     for (const o of orgs) await ctx.db.delete(o._id);
     for (const u of users) await ctx.db.delete(u._id);
 
-    // Clear Zanvex tuples
-    const zanvexDeleted = await zanvex.clearAll(ctx);
-
-    // Clear Zanvex permission rules
-    const rulesDeleted = await zanvex.clearAllRules(ctx);
-
-    // Clear Zanvex object types
-    const objectTypesDeleted = await zanvex.clearAllObjectTypes(ctx);
+    // Clear Zanvex tuples, permission rules and object types (background jobs)
+    const zanvexJobs = {
+      tuples: await zanvex.clearAll(ctx, "DELETE_ALL_TUPLES"),
+      rules: await zanvex.clearAllRules(ctx, "DELETE_ALL_RULES"),
+      objectTypes: await zanvex.clearAllObjectTypes(ctx, "DELETE_ALL_OBJECT_TYPES"),
+    };
 
     return {
       users: users.length,
@@ -1105,9 +1136,17 @@ export const clearAll = mutation({
       resources: resources.length,
       memberships: memberships.length,
       bookings: bookings.length,
-      zanvexTuples: zanvexDeleted,
-      zanvexRules: rulesDeleted,
-      zanvexObjectTypes: objectTypesDeleted,
+      zanvexJobs,
     };
   },
 });
+
+/**
+ * Recent Zanvex background jobs (clear progress)
+ */
+export const listZanvexJobs = query({
+  args: {},
+  handler: async (ctx) => {
+    return await zanvex.listJobs(ctx, { limit: 6 });
+  },
+});
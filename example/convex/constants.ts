@@ -40,39 +40,45 @@ export const RELATION_NAMES = [
 ] as const;
 
 /**
- * Object type definitions for the object type registry
+ * Object types and permission rules, as one schema for `zanvex.applySchema`
  */
-export const OBJECT_TYPES: {
-  name: string;
-  description: string;
-  relations: { name: string; targetType: string; description: string }[];
-}[] = [
-  {
-    name: "user",
-    description: "A user of the system",
-    relations: [],
-  },
-  {
-    name: "org",
-    description: "An organization",
-    relations: [
-      { name: "admin_of", targetType: "user", description: "User is an admin of this org" },
-      { name: "member_of", targetType: "user", description: "User is a member of this org" },
-    ],
-  },
-  {
-    name: "resource",
-    description: "A bookable resource like a studio",
-    relations: [
-      { name: "owner", targetType: "org", description: "The org that owns this resource" },
-    ],
-  },
-  {
-    name: "booking",
-    description: "A booking for a resource",
-    relations: [
-      { name: "parent", targetType: "resource", description: "The resource being booked" },
-      { name: "booker", targetType: "user", description: "The user who made the booking" },
-    ],
-  },
-];
+export const DEMO_SCHEMA = `
+/** A user of the system */
+definition user {}
+
+/** An organization */
+definition org {
+  /** User is an admin of this org */
+  relation admin_of: user
+  /** User is a member of this org */
+  relation member_of: user
+
+  permission read = admin_of | member_of
+  permission update = admin_of
+  permission delete = admin_of
+}
+
+/** A bookable resource like a studio */
+definition resource {
+  /** The org that owns this resource */
+  relation owner: org
+
+  permission create = owner->admin_of
+  permission read = owner->admin_of | owner->member_of
+  permission update = owner->admin_of | owner->member_of
+  permission delete = owner->admin_of
+}
+
+/** A booking for a resource */
+definition booking {
+  /** The resource being booked */
+  relation parent: resource
+  /** The user who made the booking */
+  relation booker: user
+
+  permission create = parent->update
+  permission read = parent->read | booker
+  permission update = parent->update | booker
+  permission delete = parent->delete
+}
+`;
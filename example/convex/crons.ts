@@ -0,0 +1,14 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api.js";
+
+const crons = cronJobs();
+
+// Backstop for time-bounded tuples (e.g. weekend guest access): each write
+// schedules its own delete at expiry, this sweeps up any that were missed
+crons.hourly(
+  "purge expired tuples",
+  { minuteUTC: 0 },
+  internal.app.purgeExpiredTuples
+);
+
+export default crons;
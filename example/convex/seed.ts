@@ -18,9 +18,10 @@
  * 3. Individual Functions (for debugging):
  *    npx convex run seed:seedPermissions
  *    npx convex run seed:seedRelations
- *    npx convex run seed:seedObjectTypes
- *    npx convex run seed:seedPermissionRules
+ *    npx convex run seed:applyDemoSchema   # object types + rules from one schema
  *    npx convex run seed:seedDemoData
+ *    npx convex run seed:diffDemoSchema    # preview applyDemoSchema (breaking changes)
+ *    npx convex run seed:exportSchema      # current model as schema text + JSON
  *
  * WHAT GETS SEEDED:
  *
@@ -39,13 +40,13 @@
  * - 16 Zanvex tuples (4 org memberships + 4 resource ownerships + 8 booking relations)
  */
 
-import { mutation } from "./_generated/server.js";
+import { mutation, query } from "./_generated/server.js";
 import { api, internal } from "./_generated/api.js";
 import { createZanvexClient } from "@mrfinch/zanvex";
 import { components } from "./_generated/api.js";
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel.js";
-import { PERMISSIONS, RELATION_NAMES } from "./constants.js";
+import { DEMO_SCHEMA, PERMISSIONS, RELATION_NAMES } from "./constants.js";
 
 const zanvex = createZanvexClient(components.zanvex);
 
@@ -80,26 +81,45 @@ export const seedRelations = mutation({
 });
 
 /**
- * Seed object types for booking system example
+ * Seed object types and permission rules from the demo schema
+ *
+ * Also removes object types and rules that aren't in the schema.
+ *
+ * Usage:
+ *   npx convex run seed:applyDemoSchema
+ */
+export const applyDemoSchema = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const changes = await zanvex.applySchema(ctx, DEMO_SCHEMA);
+    console.log(`Applied demo schema: ${changes.length} changes`);
+    return changes;
+  },
+});
+
+/**
+ * Preview applying the demo schema, flagging breaking changes
+ *
+ * Usage:
+ *   npx convex run seed:diffDemoSchema
  */
-export const seedObjectTypes = mutation({
+export const diffDemoSchema = query({
   args: {},
   handler: async (ctx) => {
-    await ctx.runMutation(api.app.initializeObjectTypes, {});
-    console.log("Seeded object types (user, org, resource, booking)");
-    return { total: 4 };
+    return await zanvex.diffSchema(ctx, DEMO_SCHEMA);
   },
 });
 
 /**
- * Seed permission rules for booking system example
+ * Export the authorization model (schema text + JSON with catalogs)
+ *
+ * Usage:
+ *   npx convex run seed:exportSchema
  */
-export const seedPermissionRules = mutation({
+export const exportSchema = query({
   args: {},
   handler: async (ctx) => {
-    await ctx.runMutation(api.app.initializePermissionRules, {});
-    console.log("Seeded permission rules");
-    return { total: 6 };
+    return await zanvex.exportSchema(ctx);
   },
 });
 
@@ -411,6 +431,106 @@ export const clearDemoData = mutation({
   },
 });
 
+/**
+ * Benchmark fixture: a wide org/resource graph
+ *
+ * One resource ("bench-shared") co-owned by many orgs, each with a few
+ * members, and bookings whose parent is that resource. Every booking
+ * permission fans out through `parent` to all owner orgs, so this is the
+ * shape where the evaluation cache (rules, tuple lists and shared sub-results
+ * are read once per query) and parallel fan-out matter most.
+ *
+ * Tuples are written directly (no app rows) with "bench-" ids, so they don't
+ * interfere with the demo data. Uses the demo permission rules, so run
+ * seedAll first.
+ *
+ * Usage:
+ *   npx convex run seed:seedBenchmarkGraph '{"orgs": 50, "membersPerOrg": 5, "bookings": 10}'
+ *   npx convex run seed:benchmarkPermissions
+ *
+ * benchmarkPermissions returns the reads made with the evaluation cache
+ * and without it: with the cache, all checks share one read of the
+ * resource's owners and of each org's members, instead of one per
+ * permission and org.
+ */
+export const seedBenchmarkGraph = mutation({
+  args: {
+    orgs: v.optional(v.number()),
+    membersPerOrg: v.optional(v.number()),
+    bookings: v.optional(v.number()),
+  },
+  returns: v.object({ tuples: v.number() }),
+  handler: async (ctx, { orgs = 50, membersPerOrg = 5, bookings = 10 }) => {
+    let tuples = 0;
+    const resource = { type: "resource", id: "bench-shared" };
+
+    for (let o = 0; o < orgs; o++) {
+      const org = { type: "org", id: `bench-org-${o}` };
+      await zanvex.write(ctx, resource, "owner", org);
+      tuples++;
+
+      for (let m = 0; m < membersPerOrg; m++) {
+        await zanvex.write(ctx, org, "member_of", { type: "user", id: `bench-user-${o}-${m}` });
+        tuples++;
+      }
+    }
+
+    for (let b = 0; b < bookings; b++) {
+      await zanvex.write(ctx, { type: "booking", id: `bench-booking-${b}` }, "parent", resource);
+      tuples++;
+    }
+
+    console.log(`Seeded benchmark graph: ${orgs} orgs × ${membersPerOrg} members, ${bookings} bookings (${tuples} tuples)`);
+    return { tuples };
+  },
+});
+
+/**
+ * Benchmark: all permissions on every benchmark booking, for a member of
+ * the last owner org (granted after the widest fan-out) and for an
+ * outsider (denied, so every branch is explored)
+ *
+ * Returns the allowed actions and the index queries and documents read
+ * evaluating every check with the shared cache (`cached`) and with nothing
+ * cached (`uncached`).
+ */
+export const benchmarkPermissions = query({
+  args: {
+    bookings: v.optional(v.number()),
+  },
+  handler: async (ctx, { bookings = 10 }) => {
+    const owners = await zanvex.listSubjects(ctx, { type: "resource", id: "bench-shared" }, "owner");
+    const lastOrg = owners[owners.length - 1];
+    if (!lastOrg) {
+      throw new Error("Benchmark graph not found: run seed:seedBenchmarkGraph first");
+    }
+
+    const member = { type: "user", id: `${lastOrg.subjectId.replace("bench-org-", "bench-user-")}-0` };
+    const outsider = { type: "user", id: "bench-outsider" };
+
+    const actions: string[] = (await zanvex.listPermissionRules(ctx))
+      .filter((r: { objectType: string }) => r.objectType === "booking")
+      .map((r: { permission: string }) => r.permission);
+
+    const checks = Array.from({ length: bookings }, (_, b) => ({ type: "booking", id: `bench-booking-${b}` }))
+      .flatMap((object) => [member, outsider].flatMap((subject) => actions.map((action) => ({ subject, action, object }))));
+
+    const { allowed, cached, uncached } = await zanvex.measureReads(ctx, checks);
+
+    const results = [];
+    for (let b = 0; b < bookings; b++) {
+      const object = `bench-booking-${b}`;
+      const granted = (subject: { id: string }) =>
+        checks
+          .filter((c, i) => allowed[i] && c.object.id === object && c.subject.id === subject.id)
+          .map((c) => c.action);
+      results.push({ booking: object, member: granted(member), outsider: granted(outsider) });
+    }
+
+    return { owners: owners.length, checks: checks.length, reads: { cached, uncached }, results };
+  },
+});
+
 /**
  * Seed everything at once
  *
@@ -464,21 +584,17 @@ export const seedAll = mutation({
     const permResult: { total: number } = await ctx.runMutation(api.seed.seedPermissions, {});
     const relResult: { total: number } = await ctx.runMutation(api.seed.seedRelations, {});
 
-    // Step 2: Seed object types
-    console.log("\n📦 Seeding object types...");
-    await ctx.runMutation(api.seed.seedObjectTypes, {});
-
-    // Step 3: Seed permission rules
-    console.log("\n🔐 Seeding permission rules...");
-    await ctx.runMutation(api.seed.seedPermissionRules, {});
+    // Step 2: Seed object types and permission rules
+    console.log("\n📦 Seeding object types and permission rules...");
+    await ctx.runMutation(api.seed.applyDemoSchema, {});
 
     console.log("\n✅ Catalog seeding complete!");
     console.log(`   - Permissions: ${permResult.total}`);
     console.log(`   - Relations: ${relResult.total}`);
     console.log(`   - Object types: 4 (user, org, resource, booking)`);
-    console.log(`   - Permission rules: 6\n`);
+    console.log(`   - Permission rules: 11\n`);
 
-    // Step 4: Optional demo data
+    // Step 3: Optional demo data
     let demoResult;
     if (args.includeDemoData) {
       demoResult = await ctx.runMutation(api.seed.seedDemoData, {});
@@ -520,10 +636,12 @@ export const seedFresh = mutation({
     console.log(`  Cleared ${appClearResult.deletedUsers + appClearResult.deletedOrgs + appClearResult.deletedResources + appClearResult.deletedBookings + appClearResult.deletedOrgMembers} app records\n`);
 
     // Clear component tuples using Zanvex's clearAll method
-    // This effectively resets the component's authorization state
+    // This effectively resets the component's authorization state. It runs
+    // as a background job that only deletes the tuples existing now, so the
+    // tuples re-seeded below are kept.
     console.log("Clearing component tuples...");
-    const deletedTuples = await zanvex.clearAll(ctx);
-    console.log(`  Deleted ${deletedTuples} tuples`);
+    const clearJobId = await zanvex.clearAll(ctx, "DELETE_ALL_TUPLES");
+    console.log(`  Started clear job ${clearJobId}`);
 
     console.log("\n✅ All data cleared\n");
     console.log("🌱 Re-seeding everything from scratch...\n");
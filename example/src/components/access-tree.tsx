@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import {
+  ReactFlow,
+  Node,
+  Edge,
+  Background,
+  Controls,
+  MarkerType,
+  type ColorMode,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+
+/** Expanded permission tree, as returned by zanvex.expand */
+export interface UsersetTree {
+  kind: "permission" | "union" | "intersection" | "exclusion" | "relation" | "computed" | "subject";
+  objectType?: string;
+  objectId?: string;
+  permission?: string;
+  relation?: string;
+  expression?: string;
+  subjectType?: string;
+  subjectId?: string;
+  caveatName?: string;
+  expiresAt?: number;
+  truncated?: "cycle" | "depth";
+  children: UsersetTree[];
+}
+
+interface AccessTreeProps {
+  tree: UsersetTree;
+}
+
+const nodeWidth = 200;
+const horizontalSpacing = 230;
+const verticalSpacing = 120;
+
+function describe(node: UsersetTree): { title: string; detail?: string } {
+  switch (node.kind) {
+    case "permission":
+      return {
+        title: `${node.objectType}:${node.objectId}`,
+        detail: node.truncated
+          ? `#${node.permission} (${node.truncated === "cycle" ? "cycle" : "max depth"})`
+          : `#${node.permission}`,
+      };
+    case "union":
+      return { title: "ANY OF", detail: node.expression };
+    case "intersection":
+      return { title: "ALL OF", detail: node.expression };
+    case "exclusion":
+      return { title: "BUT NOT", detail: node.expression };
+    case "relation":
+      return { title: node.relation ?? "", detail: "direct relation" };
+    case "computed":
+      return { title: `${node.relation}->${node.permission}`, detail: "computed" };
+    case "subject":
+      return {
+        title: node.subjectId === "*" ? `${node.subjectType}:* (public)` : `${node.subjectType}:${node.subjectId}`,
+        detail: node.caveatName ? `if ${node.caveatName}` : undefined,
+      };
+  }
+}
+
+/**
+ * Render the complete access tree of a permission (root at the top)
+ */
+export function AccessTree({ tree }: AccessTreeProps) {
+  const [colorMode, setColorMode] = useState<ColorMode>("dark");
+
+  // Observe the dark class on document.documentElement
+  useEffect(() => {
+    const isDark = document.documentElement.classList.contains("dark");
+    setColorMode(isDark ? "dark" : "light");
+
+    const observer = new MutationObserver(() => {
+      const isDark = document.documentElement.classList.contains("dark");
+      setColorMode(isDark ? "dark" : "light");
+    });
+
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["class"],
+    });
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Simple tidy layout: leaves spread left to right, parents centered above
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  let nextLeaf = 0;
+
+  const layout = (node: UsersetTree, id: string, depth: number): number => {
+    const childXs = node.children.map((child, i) => {
+      const childId = `${id}.${i}`;
+      edges.push({
+        id: `${id}->${childId}`,
+        source: id,
+        target: childId,
+        type: "smoothstep",
+        label: node.kind === "exclusion" ? (i === 0 ? "base" : "excluded") : undefined,
+        markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16 },
+      });
+      return layout(child, childId, depth + 1);
+    });
+
+    const x = childXs.length > 0
+      ? (childXs[0] + childXs[childXs.length - 1]) / 2
+      : nextLeaf++ * horizontalSpacing;
+    const { title, detail } = describe(node);
+    const isOperator = node.kind === "union" || node.kind === "intersection" || node.kind === "exclusion";
+
+    nodes.push({
+      id,
+      position: { x, y: depth * verticalSpacing },
+      data: {
+        label: (
+          <div className="px-3 py-2">
+            <div className="font-semibold text-sm break-all">{title}</div>
+            {detail && <div className="text-xs text-muted-foreground mt-1 break-all">{detail}</div>}
+          </div>
+        ),
+      },
+      style: {
+        width: nodeWidth,
+        padding: 0,
+        borderStyle: node.truncated ? "dashed" : "solid",
+        background: isOperator ? "hsl(var(--muted))" : undefined,
+      },
+    });
+
+    return x;
+  };
+
+  layout(tree, "root", 0);
+
+  return (
+    <div style={{ width: "100%", height: "600px" }}>
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        fitView
+        attributionPosition="bottom-left"
+        colorMode={colorMode}
+        nodesDraggable={false}
+      >
+        <Background />
+        <Controls />
+      </ReactFlow>
+    </div>
+  );
+}
@@ -22,7 +22,7 @@ interface ObjectType {
   description?: string;
   relations: Array<{
     name: string;
-    targetType: string;
+    targetTypes: Array<{ type: string; relation?: string }>;
     description?: string;
   }>;
 }
@@ -34,10 +34,18 @@ interface Permission {
   category: string;
 }
 
+/** Validation problem in the generated DSL, as returned by zanvex.validatePermission */
+export interface RuleError {
+  message: string;
+  start: number; // Character span in the DSL string
+  end: number;
+}
+
 interface RuleBuilderProps {
   objectType: string; // The object type we're defining a rule for
   objectTypes: ObjectType[]; // All registered types (for validation)
   permissions: Permission[]; // All available permissions
+  errors?: RuleError[]; // Problems to highlight in the generated DSL
   onRuleChange: (dslExpression: string) => void; // Callback with DSL string
 }
 
@@ -45,6 +53,7 @@ export function RuleBuilder({
   objectType,
   objectTypes,
   permissions,
+  errors = [],
   onRuleChange,
 }: RuleBuilderProps) {
   const [conditions, setConditions] = useState<RuleCondition[]>([]);
@@ -108,8 +117,19 @@ export function RuleBuilder({
             Generated DSL:
           </div>
           <div className="font-mono text-sm text-green-500">
-            {conditionsToDSL(conditions) || '(empty)'}
+            {conditionsToDSL(conditions) ? (
+              <HighlightedDSL dsl={conditionsToDSL(conditions)} errors={errors} />
+            ) : (
+              '(empty)'
+            )}
           </div>
+          {errors.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-destructive">
+              {errors.map((error, i) => (
+                <li key={i}>{error.message}</li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
@@ -121,7 +141,7 @@ interface ConditionRowProps {
   index: number;
   relations: Array<{
     name: string;
-    targetType: string;
+    targetTypes: Array<{ type: string; relation?: string }>;
     description?: string;
   }>;
   permissions: Permission[];
@@ -139,14 +159,14 @@ function ConditionRow({
   onUpdate,
   onRemove,
 }: ConditionRowProps) {
-  // Get target type for the selected source relation
+  // Get target types for the selected source relation
   const selectedRelation = relations.find(
     (r) => r.name === condition.sourceRelation
   );
-  const targetType = selectedRelation?.targetType;
+  const targetTypes = selectedRelation?.targetTypes.map((t) => t.type) ?? [];
 
-  // Get permissions for the target type (if computed)
-  const targetObjectType = objectTypes.find((t) => t.name === targetType);
+  // Get permissions for the target types (if computed)
+  const targetObjectTypes = objectTypes.filter((t) => targetTypes.includes(t.name));
 
   return (
     <div className="flex items-center gap-2 p-3 bg-card border border-border rounded-lg">
@@ -194,7 +214,7 @@ function ConditionRow({
                 <div className="flex items-center gap-2">
                   <span>{rel.name}</span>
                   <span className="text-xs text-muted-foreground">
-                    → {rel.targetType}
+                    → {formatTargets(rel.targetTypes)}
                   </span>
                 </div>
               </SelectItem>
@@ -219,7 +239,7 @@ function ConditionRow({
                   <div className="flex items-center gap-2">
                     <span>{rel.name}</span>
                     <span className="text-xs text-muted-foreground">
-                      → {rel.targetType}
+                      → {formatTargets(rel.targetTypes)}
                     </span>
                   </div>
                 </SelectItem>
@@ -258,6 +278,46 @@ function ConditionRow({
   );
 }
 
+/**
+ * Format a relation's allowed subject types: "user | team#member"
+ */
+function formatTargets(targets: Array<{ type: string; relation?: string }>): string {
+  return targets.map((t) => (t.relation ? `${t.type}#${t.relation}` : t.type)).join(" | ");
+}
+
+/**
+ * Render a DSL string with the error spans underlined
+ */
+function HighlightedDSL({ dsl, errors }: { dsl: string; errors: RuleError[] }) {
+  const isError = (i: number) => errors.some((e) => i >= e.start && i < Math.max(e.end, e.start + 1));
+
+  // Split into runs of characters that are all inside or all outside errors
+  const segments: { text: string; error: boolean }[] = [];
+  for (let i = 0; i < dsl.length; i++) {
+    const error = isError(i);
+    const last = segments[segments.length - 1];
+    if (last && last.error === error) {
+      last.text += dsl[i];
+    } else {
+      segments.push({ text: dsl[i], error });
+    }
+  }
+
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.error ? (
+          <span key={i} className="text-destructive underline decoration-wavy">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
 /**
  * Convert conditions to DSL string
  */
@@ -15,7 +15,9 @@ import {
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { tree, hierarchy } from "d3-hierarchy";
-import { Network } from "lucide-react";
+import { Network, GitBranch } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { AccessTree } from "@/components/access-tree";
 
 import {
   Card,
@@ -78,6 +80,17 @@ export function GraphPage() {
   const objectTypes = useQuery(api.app.listObjectTypes) ?? [];
   const [colorMode, setColorMode] = useState<ColorMode>("dark");
 
+  // Access tree: the full expansion of one permission on one object
+  const [treeObjectType, setTreeObjectType] = useState("booking");
+  const [treeObjectId, setTreeObjectId] = useState("");
+  const [treePermission, setTreePermission] = useState("update");
+  const accessTree = useQuery(
+    api.app.expandPermission,
+    treeObjectType && treeObjectId && treePermission
+      ? { objectType: treeObjectType, objectId: treeObjectId, permission: treePermission }
+      : "skip"
+  );
+
   // Observe the dark class on document.documentElement
   useEffect(() => {
     // Set initial value
@@ -130,18 +143,20 @@ export function GraphPage() {
     const edges: Edge[] = [];
     objectTypes.forEach((type) => {
       type.relations.forEach((relation) => {
-        edges.push({
-          id: `${type.name}-${relation.name}-${relation.targetType}`,
-          source: relation.targetType,
-          target: type.name,
-          label: relation.name,
-          type: "smoothstep",
-          animated: false,
-          markerEnd: {
-            type: MarkerType.ArrowClosed,
-            width: 20,
-            height: 20,
-          },
+        relation.targetTypes.forEach((target) => {
+          edges.push({
+            id: `${type.name}-${relation.name}-${target.type}${target.relation ? `-${target.relation}` : ""}`,
+            source: target.type,
+            target: type.name,
+            label: target.relation ? `${relation.name} (#${target.relation})` : relation.name,
+            type: "smoothstep",
+            animated: false,
+            markerEnd: {
+              type: MarkerType.ArrowClosed,
+              width: 20,
+              height: 20,
+            },
+          });
         });
       });
     });
@@ -222,6 +237,46 @@ export function GraphPage() {
           </Card>
         )}
 
+        {/* Access Tree */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <GitBranch className="size-4" />
+              Access Tree
+            </CardTitle>
+            <CardDescription>
+              Everything that grants a permission on an object: rule operators,
+              computed hops, usersets and the subjects at the leaves
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                placeholder="Object type (e.g. booking)"
+                value={treeObjectType}
+                onChange={(e) => setTreeObjectType(e.target.value.trim())}
+              />
+              <Input
+                placeholder="Object id"
+                value={treeObjectId}
+                onChange={(e) => setTreeObjectId(e.target.value.trim())}
+              />
+              <Input
+                placeholder="Permission (e.g. update)"
+                value={treePermission}
+                onChange={(e) => setTreePermission(e.target.value.trim())}
+              />
+            </div>
+            {accessTree ? (
+              <AccessTree tree={accessTree} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Enter an object and a permission to see its access tree
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Legend */}
         {objectTypes.length > 0 && (
           <Card>
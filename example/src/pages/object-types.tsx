@@ -20,10 +20,23 @@ import {
 } from "@/components/ui/select";
 import { Database, Plus, Trash2, RefreshCw, Edit2, Save, X } from "lucide-react";
 
+interface TargetType {
+  type: string;
+  relation?: string; // Userset: "team#member"
+}
+
 interface Relation {
   name: string;
-  targetType: string;
+  targetTypes: TargetType[];
   description?: string;
+  allowWildcard?: boolean;
+}
+
+/** "user | team#member" */
+function formatTargets(targets: TargetType[]) {
+  return targets
+    .map((t) => (t.relation ? `${t.type}#${t.relation}` : t.type))
+    .join(" | ");
 }
 
 interface ObjectType {
@@ -33,11 +46,12 @@ interface ObjectType {
 }
 
 export function ObjectTypesPage() {
-  const objectTypes = useQuery(api.app.listObjectTypes) ?? [];
+  const listedObjectTypes = useQuery(api.app.listObjectTypes);
+  const objectTypes = listedObjectTypes ?? [];
   const relationNames = useQuery(api.app.listRelationNames) ?? [];
   const registerObjectType = useMutation(api.app.registerObjectType);
   const deleteObjectType = useMutation(api.app.deleteObjectType);
-  const initializeObjectTypes = useMutation(api.app.initializeObjectTypes);
+  const initializeSchema = useMutation(api.app.initializeSchema);
 
   const [editingType, setEditingType] = useState<ObjectType | null>(null);
   const [typeName, setTypeName] = useState("");
@@ -47,14 +61,15 @@ export function ObjectTypesPage() {
   // Relation form state
   const [relationName, setRelationName] = useState("");
   const [relationTarget, setRelationTarget] = useState("");
+  const [relationTargetRelation, setRelationTargetRelation] = useState("");
   const [relationDescription, setRelationDescription] = useState("");
 
-  // Initialize on first load
+  // Initialize on first load (once loaded: the schema replaces existing types)
   useEffect(() => {
-    if (objectTypes.length === 0) {
-      initializeObjectTypes();
+    if (listedObjectTypes?.length === 0) {
+      initializeSchema();
     }
-  }, [objectTypes.length, initializeObjectTypes]);
+  }, [listedObjectTypes?.length, initializeSchema]);
 
   const startEdit = (type: ObjectType) => {
     setEditingType(type);
@@ -85,17 +100,33 @@ export function ObjectTypesPage() {
   const handleAddRelation = () => {
     if (!relationName || !relationTarget) return;
 
-    setRelations([
-      ...relations,
-      {
-        name: relationName,
-        targetType: relationTarget,
-        description: relationDescription || undefined,
-      },
-    ]);
+    const target: TargetType = {
+      type: relationTarget,
+      relation: relationTargetRelation || undefined,
+    };
+    const existing = relations.findIndex((r) => r.name === relationName);
+
+    if (existing >= 0) {
+      // Same relation again: allow one more target type
+      setRelations(
+        relations.map((r, i) =>
+          i === existing ? { ...r, targetTypes: [...r.targetTypes, target] } : r
+        )
+      );
+    } else {
+      setRelations([
+        ...relations,
+        {
+          name: relationName,
+          targetTypes: [target],
+          description: relationDescription || undefined,
+        },
+      ]);
+    }
 
     setRelationName("");
     setRelationTarget("");
+    setRelationTargetRelation("");
     setRelationDescription("");
   };
 
@@ -136,7 +167,7 @@ export function ObjectTypesPage() {
                     <p className="text-muted-foreground mb-2">
                       No object types defined
                     </p>
-                    <Button size="sm" onClick={() => initializeObjectTypes()}>
+                    <Button size="sm" onClick={() => initializeSchema()}>
                       <RefreshCw className="size-4 mr-2" />
                       Initialize Defaults
                     </Button>
@@ -185,7 +216,7 @@ export function ObjectTypesPage() {
                               <span className="text-yellow-500">{rel.name}</span>
                               <span className="text-muted-foreground">→</span>
                               <span className="text-green-500">
-                                {rel.targetType}
+                                {formatTargets(rel.targetTypes)}
                               </span>
                               {rel.description && (
                                 <span className="text-muted-foreground italic">
@@ -246,7 +277,7 @@ export function ObjectTypesPage() {
                       <span className="text-yellow-500">{rel.name}</span>
                       <span className="text-muted-foreground">→</span>
                       <span className="text-green-500 flex-1">
-                        {rel.targetType}
+                        {formatTargets(rel.targetTypes)}
                       </span>
                       <Trash2
                         className="size-4 opacity-50 hover:opacity-100 hover:text-destructive cursor-pointer"
@@ -258,7 +289,9 @@ export function ObjectTypesPage() {
 
                 {/* Add Relation Form */}
                 <div className="border-t pt-3 space-y-2">
-                  <p className="text-xs text-muted-foreground">Add Relation:</p>
+                  <p className="text-xs text-muted-foreground">
+                    Add Relation (add an existing one again to allow another target type):
+                  </p>
                   <div className="grid grid-cols-2 gap-2">
                     <Select value={relationName} onValueChange={setRelationName}>
                       <SelectTrigger className="text-sm">
@@ -292,6 +325,12 @@ export function ObjectTypesPage() {
                       </SelectContent>
                     </Select>
                   </div>
+                  <Input
+                    placeholder="Subject relation for a userset (optional, e.g. member)"
+                    value={relationTargetRelation}
+                    onChange={(e) => setRelationTargetRelation(e.target.value)}
+                    className="text-sm"
+                  />
                   <Input
                     placeholder="Description (optional)"
                     value={relationDescription}
@@ -1,7 +1,8 @@
 import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
 import { useQuery } from "convex-helpers/react/cache";
 import { api } from "@convex/_generated/api";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -20,19 +21,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { RuleBuilder } from "@/components/rule-builder";
+import { RuleBuilder, type RuleError } from "@/components/rule-builder";
 import { Settings, RefreshCw, Trash2, Plus, Save, X } from "lucide-react";
 
 export function PermissionRulesPage() {
   // Queries
-  const permissionRules = useQuery(api.app.listPermissionRules) ?? [];
-  const objectTypes = useQuery(api.app.listObjectTypes) ?? [];
+  const listedRules = useQuery(api.app.listPermissionRules);
+  const listedObjectTypes = useQuery(api.app.listObjectTypes);
+  const permissionRules = listedRules ?? [];
+  const objectTypes = listedObjectTypes ?? [];
   const permissions = useQuery(api.app.listPermissions) ?? [];
 
   // Mutations
-  const initializePermissionRules = useMutation(
-    api.app.initializePermissionRules
-  );
+  const initializeSchema = useMutation(api.app.initializeSchema);
   const definePermissionRule = useMutation(api.app.definePermissionRule);
   const deletePermissionRule = useMutation(api.app.deletePermissionRule);
 
@@ -40,18 +41,53 @@ export function PermissionRulesPage() {
   const [objectType, setObjectType] = useState("");
   const [permission, setPermission] = useState("");
   const [expression, setExpression] = useState("");
+  const [saveErrors, setSaveErrors] = useState<RuleError[] | null>(null);
+
+  // Validate the rule against the registered object types as it's built
+  const liveErrors =
+    useQuery(
+      api.app.validatePermissionRule,
+      objectType && permission && expression
+        ? { objectType, permission, expression }
+        : "skip"
+    ) ?? [];
+  const ruleErrors = saveErrors ?? liveErrors;
 
-  // Initialize permission rules on first load
+  // Editing the form discards errors from the last save attempt
+  const handleObjectTypeChange = (value: string) => {
+    setObjectType(value);
+    setSaveErrors(null);
+  };
+  const handlePermissionChange = (value: string) => {
+    setPermission(value);
+    setSaveErrors(null);
+  };
+  // Stable: the rule builder reports its expression from an effect
+  const handleExpressionChange = useCallback((value: string) => {
+    setExpression(value);
+    setSaveErrors(null);
+  }, []);
+
+  // Initialize the demo schema on first load. The schema replaces existing
+  // object types, so only do this automatically when there are none.
   useEffect(() => {
-    if (permissionRules.length === 0) {
-      initializePermissionRules();
+    if (listedRules?.length === 0 && listedObjectTypes?.length === 0) {
+      initializeSchema();
     }
-  }, [permissionRules.length, initializePermissionRules]);
+  }, [listedRules?.length, listedObjectTypes?.length, initializeSchema]);
 
   const handleDefineRule = async () => {
     if (!objectType || !permission || !expression) return;
 
-    await definePermissionRule({ objectType, permission, expression });
+    try {
+      await definePermissionRule({ objectType, permission, expression });
+    } catch (error) {
+      if (error instanceof ConvexError && error.data?.code === "InvalidPermissionRule") {
+        setSaveErrors(error.data.errors as RuleError[]);
+        return;
+      }
+      throw error;
+    }
     setObjectType("");
     setPermission("");
     setExpression("");
@@ -100,7 +136,7 @@ export function PermissionRulesPage() {
                     </p>
                     <Button
                       size="sm"
-                      onClick={() => initializePermissionRules()}
+                      onClick={() => initializeSchema()}
                     >
                       <RefreshCw className="size-4 mr-2" />
                       Initialize Defaults
@@ -156,7 +192,7 @@ export function PermissionRulesPage() {
               {/* Object Type Selection */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Object Type</label>
-                <Select value={objectType} onValueChange={setObjectType}>
+                <Select value={objectType} onValueChange={handleObjectTypeChange}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select object type..." />
                   </SelectTrigger>
@@ -173,7 +209,7 @@ export function PermissionRulesPage() {
               {/* Permission Name */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Permission</label>
-                <Select value={permission} onValueChange={setPermission}>
+                <Select value={permission} onValueChange={handlePermissionChange}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select permission..." />
                   </SelectTrigger>
@@ -210,7 +246,8 @@ export function PermissionRulesPage() {
                     objectType={objectType}
                     objectTypes={objectTypes}
                     permissions={permissions}
-                    onRuleChange={setExpression}
+                    errors={ruleErrors}
+                    onRuleChange={handleExpressionChange}
                   />
                 </div>
               )}
@@ -219,7 +256,7 @@ export function PermissionRulesPage() {
               <Button
                 className="w-full"
                 onClick={handleDefineRule}
-                disabled={!objectType || !permission || !expression}
+                disabled={!objectType || !permission || !expression || ruleErrors.length > 0}
               >
                 <Save className="size-4 mr-1" />
                 Define Rule
@@ -1,4 +1,5 @@
 import { useMutation } from "convex/react";
+import { useQuery } from "convex-helpers/react/cache";
 import { api } from "@convex/_generated/api";
 import { Button } from "@/components/ui/button";
 import {
@@ -21,6 +22,7 @@ export function SettingsPage() {
   } = useSelection();
 
   const clearAll = useMutation(api.app.clearAll);
+  const jobs = useQuery(api.app.listZanvexJobs) ?? [];
 
   const handleClearAll = async () => {
     await clearAll();
@@ -56,6 +58,7 @@ export function SettingsPage() {
               <CardTitle className="text-base">Clear All Data</CardTitle>
               <CardDescription>
                 Remove all app data, Zanvex tuples, rules, and object types
+                (Zanvex tables are cleared in the background)
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -63,6 +66,18 @@ export function SettingsPage() {
                 <Trash2 className="size-4 mr-2" />
                 Clear All Data
               </Button>
+              {jobs.length > 0 && (
+                <div className="mt-4 space-y-1 text-xs font-mono">
+                  {jobs.map((job) => (
+                    <div key={job.jobId} className="flex items-center justify-between gap-2">
+                      <span>{job.kind}</span>
+                      <span className={job.status === "running" ? "text-yellow-500" : "text-muted-foreground"}>
+                        {job.status} · {job.deleted} deleted
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1,3 +1,5 @@
+import { useState } from "react";
+import { usePaginatedQuery } from "convex/react";
 import { useQuery } from "convex-helpers/react/cache";
 import { api } from "@convex/_generated/api";
 import {
@@ -7,11 +9,29 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { GitBranch } from "lucide-react";
 
+const ALL_TYPES = "all";
+const PAGE_SIZE = 50;
+
 export function TuplesPage() {
-  // Queries - Zanvex Tuples
-  const allTuples = useQuery(api.app.getAllTuples) ?? [];
+  const [objectType, setObjectType] = useState(ALL_TYPES);
+  const objectTypes = useQuery(api.app.listObjectTypes) ?? [];
+
+  // Queries - Zanvex Tuples (paged through the component's readTuples)
+  const { results: allTuples, status, loadMore } = usePaginatedQuery(
+    api.app.getAllTuples,
+    { objectType: objectType === ALL_TYPES ? undefined : objectType },
+    { initialNumItems: PAGE_SIZE }
+  );
 
   return (
     <div className="space-y-8">
@@ -26,15 +46,35 @@ export function TuplesPage() {
 
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">
-              All Tuples ({allTuples.length})
-            </CardTitle>
-            <CardDescription>Live view of permission graph</CardDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-base">
+                  {objectType === ALL_TYPES ? "All Tuples" : `${objectType} Tuples`} ({allTuples.length}
+                  {status !== "Exhausted" && "+"})
+                </CardTitle>
+                <CardDescription>Live view of permission graph</CardDescription>
+              </div>
+              <Select value={objectType} onValueChange={setObjectType}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All object types</SelectItem>
+                  {objectTypes.map((type) => (
+                    <SelectItem key={type.name} value={type.name}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-1 max-h-96 overflow-auto font-mono text-xs">
               {allTuples.length === 0 ? (
-                <p className="text-muted-foreground italic">No tuples yet</p>
+                <p className="text-muted-foreground italic">
+                  {status === "LoadingFirstPage" ? "Loading..." : "No tuples yet"}
+                </p>
               ) : (
                 allTuples.map((t, i) => (
                   <div key={i} className="flex items-center gap-1">
@@ -47,6 +87,16 @@ export function TuplesPage() {
                 ))
               )}
             </div>
+            {status === "CanLoadMore" && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-4"
+                onClick={() => loadMore(PAGE_SIZE)}
+              >
+                Load more
+              </Button>
+            )}
           </CardContent>
         </Card>
       </section>
@@ -2,8 +2,11 @@ import type {
   GenericMutationCtx,
   GenericQueryCtx,
   GenericDataModel,
+  PaginationOptions,
 } from "convex/server";
 import type { ComponentApi } from "../component/_generated/component.js";
+import type { ExpandNode, ExpandTree } from "../component/permissions.js";
+import type { TupleFilter } from "../component/tuples.js";
 
 /**
  * Zanvex Client
@@ -42,21 +45,89 @@ export interface ObjectRef {
 export interface SubjectRef {
   type: string;
   id: string;
+  /**
+   * Optional relation on the subject, making it a userset:
+   * `{ type: "org", id: "acme", relation: "member_of" }` → every member_of org:acme
+   */
+  relation?: string;
+}
+
+/**
+ * Arguments for can/canWithPath
+ *
+ * `context` supplies values for caveats on the tuples being checked.
+ * `maxDepth` overrides the traversal depth limit (default 10).
+ */
+export interface CanArgs {
+  subject: SubjectRef;
+  action: string;
+  object: ObjectRef;
+  context?: Record<string, unknown>;
+  maxDepth?: number;
+}
+
+/**
+ * One update for `writeTuples`
+ *
+ * `expiresAt` and `caveat` work as in `write` ("delete" ignores them).
+ */
+export interface TupleUpdate {
+  operation: "create" | "touch" | "delete";
+  object: ObjectRef;
+  relation: string;
+  subject: SubjectRef;
+  expiresAt?: number;
+  caveat?: { name: string; context?: Record<string, unknown> };
+}
+
+/**
+ * A condition checked before a `writeTuples` batch is applied
+ *
+ * "mustMatch": some unexpired tuple matches `filter`; "mustNotMatch": none
+ * does. `filter` follows the same prefix rules as `readTuples`.
+ */
+export interface TuplePrecondition {
+  operation: "mustMatch" | "mustNotMatch";
+  filter: TupleFilter;
 }
 
 // Helper functions for common argument mappings
 const mapObject = (o: ObjectRef) => ({ objectType: o.type, objectId: o.id });
 const mapSubject = (s: SubjectRef) => ({ subjectType: s.type, subjectId: s.id });
+const mapUserset = (s: SubjectRef) => ({
+  ...mapSubject(s),
+  ...(s.relation !== undefined && { subjectRelation: s.relation }),
+});
 const mapObjRelSub = (o: ObjectRef, relation: string, s: SubjectRef) => ({
   ...mapObject(o), relation, ...mapSubject(s)
 });
-const mapCanArgs = (args: { subject: SubjectRef; action: string; object: ObjectRef }) => ({
-  ...mapObject(args.object), action: args.action, ...mapSubject(args.subject)
+const mapTuple = (o: ObjectRef, relation: string, s: SubjectRef) => ({
+  ...mapObject(o), relation, ...mapUserset(s)
+});
+const mapCanArgs = (args: CanArgs) => ({
+  ...mapObject(args.object), action: args.action, ...mapUserset(args.subject),
+  ...(args.context !== undefined && { context: args.context }),
+  ...(args.maxDepth !== undefined && { maxDepth: args.maxDepth }),
 });
 const mapPermsArgs = (args: { subject: SubjectRef; object: ObjectRef }) => ({
   ...mapObject(args.object), ...mapSubject(args.subject)
 });
 
+/**
+ * Expanded permission tree (see `expand`), with children nested
+ *
+ * Subtrees the component shares between parents appear under each of them.
+ */
+export type UsersetTree = Omit<ExpandNode, "children"> & { children: UsersetTree[] };
+
+const inflateUsersetTree = ({ root, nodes }: ExpandTree): UsersetTree => {
+  const build = (index: number): UsersetTree => ({
+    ...nodes[index],
+    children: (nodes[index].children ?? []).map(build),
+  });
+  return build(root);
+};
+
 /**
  * Create a Zanvex client for use in app functions
  *
@@ -74,9 +145,34 @@ export function createZanvexClient(component: ComponentApi) {
      *
      * // Add user to org
      * await zanvex.write(ctx, { type: "org", id: "acme" }, "member_of", { type: "user", id: "daniel" });
+     *
+     * // Make a resource public (relation must opt in with `allowWildcard`)
+     * await zanvex.write(ctx, { type: "resource", id: "studio-a" }, "viewer", { type: "user", id: "*" });
+     *
+     * // Let every member of the org view a resource (userset subject)
+     * await zanvex.write(ctx, { type: "resource", id: "studio-a" }, "viewer", { type: "org", id: "acme", relation: "member_of" });
+     *
+     * // Temporary access: stops granting access after the weekend
+     * await zanvex.write(ctx, { type: "resource", id: "studio-a" }, "viewer", { type: "user", id: "guest" }, { expiresAt: sundayNight });
+     *
+     * // Conditional access: only grants access while the caveat holds
+     * await zanvex.write(ctx, { type: "resource", id: "studio-a" }, "editor", { type: "user", id: "daniel" }, {
+     *   caveat: { name: "business_hours" },
+     * });
      */
-    write: (ctx: MutationCtx, object: ObjectRef, relation: string, subject: SubjectRef) =>
-      ctx.runMutation(component.tuples.write, mapObjRelSub(object, relation, subject)),
+    write: (
+      ctx: MutationCtx,
+      object: ObjectRef,
+      relation: string,
+      subject: SubjectRef,
+      options?: { expiresAt?: number; caveat?: { name: string; context?: Record<string, unknown> } }
+    ) =>
+      ctx.runMutation(component.tuples.write, {
+        ...mapTuple(object, relation, subject),
+        ...(options?.expiresAt !== undefined && { expiresAt: options.expiresAt }),
+        ...(options?.caveat !== undefined && { caveatName: options.caveat.name }),
+        ...(options?.caveat?.context !== undefined && { caveatContext: options.caveat.context }),
+      }),
 
     /**
      * Delete a relationship tuple
@@ -88,12 +184,55 @@ export function createZanvexClient(component: ComponentApi) {
      * await zanvex.remove(ctx, { type: "org", id: "acme" }, "member_of", { type: "user", id: "daniel" });
      */
     remove: (ctx: MutationCtx, object: ObjectRef, relation: string, subject: SubjectRef) =>
-      ctx.runMutation(component.tuples.remove, mapObjRelSub(object, relation, subject)),
+      ctx.runMutation(component.tuples.remove, mapTuple(object, relation, subject)),
+
+    /**
+     * Apply several tuple writes and deletes atomically (all or nothing)
+     *
+     * "create" fails if the tuple exists, "touch" is `write`, "delete" is
+     * `remove`. If any update fails nothing is written, and a ConvexError
+     * with data `{ code: "TupleUpdateFailed", message, index, operation }`
+     * names the failing update.
+     *
+     * Pass `preconditions` to only apply the batch if tuples matching a filter
+     * exist ("mustMatch") or don't ("mustNotMatch"); otherwise nothing is
+     * written and a ConvexError with data
+     * `{ code: "PreconditionFailed", message, index, precondition }` is thrown.
+     *
+     * @returns Per update: the tuple id for "create" / "touch", whether the
+     * tuple existed for "delete"
+     *
+     * @example
+     * // Move a resource to another org
+     * await zanvex.writeTuples(ctx, [
+     *   { operation: "delete", object: { type: "resource", id: "studio-a" }, relation: "owner", subject: { type: "org", id: "acme" } },
+     *   { operation: "create", object: { type: "resource", id: "studio-a" }, relation: "owner", subject: { type: "org", id: "beta" } },
+     * ], {
+     *   // ...only if acme still owns it
+     *   preconditions: [{ operation: "mustMatch", filter: { objectType: "resource", objectId: "studio-a", relation: "owner", subjectType: "org", subjectId: "acme", subjectRelation: null } }],
+     * });
+     */
+    writeTuples: (ctx: MutationCtx, updates: TupleUpdate[], options?: { preconditions?: TuplePrecondition[] }) =>
+      ctx.runMutation(component.tuples.writeTuples, {
+        ...(options?.preconditions !== undefined && { preconditions: options.preconditions }),
+        updates: updates.map(({ operation, object, relation, subject, expiresAt, caveat }) => ({
+          operation,
+          tuple: {
+            ...mapTuple(object, relation, subject),
+            ...(expiresAt !== undefined && { expiresAt }),
+            ...(caveat !== undefined && { caveatName: caveat.name }),
+            ...(caveat?.context !== undefined && { caveatContext: caveat.context }),
+          },
+        })),
+      }),
 
     /**
      * Delete all tuples for an object
      *
-     * @returns count of deleted tuples
+     * Deletes up to 500 tuples now and schedules batches for the rest.
+     *
+     * @returns count deleted by this batch, and `isDone: false` if more were
+     * scheduled
      *
      * @example
      * // When deleting a resource, remove all permissions
@@ -105,7 +244,10 @@ export function createZanvexClient(component: ComponentApi) {
     /**
      * Delete all tuples for a subject
      *
-     * @returns count of deleted tuples
+     * Deletes up to 500 tuples now and schedules batches for the rest.
+     *
+     * @returns count deleted by this batch, and `isDone: false` if more were
+     * scheduled
      *
      * @example
      * // When deleting a user, remove all their permissions
@@ -115,19 +257,50 @@ export function createZanvexClient(component: ComponentApi) {
       ctx.runMutation(component.tuples.removeAllForSubject, mapSubject(subject)),
 
     /**
-     * Check if subject has relation to object (with 1-hop traversal)
+     * Delete every tuple matching a filter (any combination of fields)
+     *
+     * Reads up to `batchSize` (default 500) tuples of the best matching index
+     * now, deleting the matches; if the range continues the component
+     * schedules follow-up batches.
+     *
+     * @returns count deleted by this batch, and whether it was the last
+     *
+     * @example
+     * // Remove every viewer tuple on resources for user:bob
+     * await zanvex.deleteTuples(ctx, { objectType: "resource", relation: "viewer", subjectType: "user", subjectId: "bob" });
+     */
+    deleteTuples: (ctx: MutationCtx, filter: TupleFilter, options?: { batchSize?: number }) =>
+      ctx.runMutation(component.tuples.deleteTuples, {
+        ...filter,
+        ...(options?.batchSize !== undefined && { batchSize: options.batchSize }),
+      }),
+
+    /**
+     * Check if subject has relation to object
      *
-     * Traversal follows `member_of` relations automatically.
+     * Evaluated by the same rule engine as `can`: the relation's permission
+     * rule if one is defined, otherwise a direct relation.
+     *
+     * Pass `{ legacyHop: true }` for the old behaviour (compatibility mode):
+     * rules are ignored and the subject's `member_of`, `admin_of`, `editor`
+     * and `viewer` tuples are followed one hop.
      *
      * @example
      * // Direct check: user:daniel owns resource:studio-a?
-     * const canAccess = await zanvex.check(ctx, { type: "resource", id: "studio-a" }, "owner", { type: "user", id: "daniel" });
+     * const isOwner = await zanvex.check(ctx, { type: "resource", id: "studio-a" }, "owner", { type: "user", id: "daniel" });
      *
-     * // With traversal: user:daniel is member of org:acme, which owns resource:studio-a
-     * // → Returns true because of the indirect path
+     * // With a rule: resource.update = "owner->admin_of | owner->member_of"
+     * // → true when user:daniel is admin or member of the org owning studio-a
+     * const canUpdate = await zanvex.check(ctx, { type: "resource", id: "studio-a" }, "update", { type: "user", id: "daniel" });
      */
-    check: (ctx: QueryCtx, object: ObjectRef, relation: string, subject: SubjectRef) =>
-      ctx.runQuery(component.check.check, mapObjRelSub(object, relation, subject)),
+    check: (
+      ctx: QueryCtx,
+      object: ObjectRef,
+      relation: string,
+      subject: SubjectRef,
+      options?: { legacyHop?: boolean }
+    ) =>
+      ctx.runQuery(component.check.check, { ...mapObjRelSub(object, relation, subject), ...options }),
 
     /**
      * List all subjects with a specific relation to an object
@@ -143,13 +316,20 @@ export function createZanvexClient(component: ComponentApi) {
     /**
      * List all relations a subject has
      *
+     * Tuples granting one of the subject's usersets carry `subjectRelation`;
+     * pass `subject.relation` to list only those for that userset.
+     *
      * @example
      * // What does this user have access to?
      * const relations = await zanvex.listRelations(ctx, { type: "user", id: "daniel" });
      * // → [{ objectType: "org", objectId: "acme", relation: "member_of" }]
+     *
+     * // What is granted to every member of team:eng?
+     * await zanvex.listRelations(ctx, { type: "team", id: "eng", relation: "member" });
+     * // → [{ objectType: "resource", objectId: "x", relation: "viewer", subjectRelation: "member" }]
      */
     listRelations: (ctx: QueryCtx, subject: SubjectRef) =>
-      ctx.runQuery(component.check.listRelations, mapSubject(subject)),
+      ctx.runQuery(component.check.listRelations, mapUserset(subject)),
 
     /**
      * List all tuples for an object (all relations, all subjects)
@@ -162,18 +342,77 @@ export function createZanvexClient(component: ComponentApi) {
     listTuplesForObject: (ctx: QueryCtx, object: ObjectRef) =>
       ctx.runQuery(component.check.listTuplesForObject, mapObject(object)),
 
+    /**
+     * Page through all tuples, optionally filtered
+     *
+     * Filter on a prefix of (objectType, objectId, relation, subjectType,
+     * subjectId, subjectRelation), or of (subjectType, subjectId,
+     * subjectRelation, relation); `subjectRelation: null` matches only plain
+     * subjects. Pass `continueCursor` back as `cursor` until `isDone`.
+     *
+     * @example
+     * // Every tuple on orgs, 100 at a time
+     * const { page, isDone, continueCursor } = await zanvex.readTuples(ctx,
+     *   { objectType: "org" }, { numItems: 100, cursor: null });
+     */
+    readTuples: (ctx: QueryCtx, filter: TupleFilter, paginationOpts: PaginationOptions) =>
+      ctx.runQuery(component.check.readTuples, { ...filter, paginationOpts }),
+
+    /**
+     * Delete tuples whose `expiresAt` has passed
+     *
+     * Deletes in batches, scheduling follow-up batches until none remain.
+     * Writes already schedule each expiring tuple's delete; call this from a
+     * cron in your app as a backstop.
+     *
+     * @returns count of tuples deleted by the first batch
+     *
+     * @example
+     * // In an internal mutation scheduled by convex/crons.ts
+     * await zanvex.purgeExpired(ctx);
+     */
+    purgeExpired: (ctx: MutationCtx, options?: { batchSize?: number }) =>
+      ctx.runMutation(component.tuples.purgeExpired, { ...options }),
+
     /**
      * Delete ALL tuples in the database
      *
-     * Use with caution - this removes all permissions!
+     * Use with caution - this removes all permissions! Pass the confirmation
+     * token "DELETE_ALL_TUPLES" to proceed.
+     *
+     * Runs as a background job in batches (default 1000 tuples each): the
+     * tuples that exist now are deleted, tuples written afterwards (including
+     * existing tuples written again) are kept.
      *
-     * @returns count of deleted tuples
+     * @returns job id, for `getJob`
      *
      * @example
      * // Clear all permissions (for testing/reset)
-     * const deleted = await zanvex.clearAll(ctx);
+     * const jobId = await zanvex.clearAll(ctx, "DELETE_ALL_TUPLES");
      */
-    clearAll: (ctx: MutationCtx) => ctx.runMutation(component.tuples.clearAll, {}),
+    clearAll: (ctx: MutationCtx, confirm: "DELETE_ALL_TUPLES", options?: { batchSize?: number }) =>
+      ctx.runMutation(component.tuples.clearAll, { confirm, ...options }),
+
+    // ============================================
+    // BACKGROUND JOBS
+    // ============================================
+
+    /**
+     * Get the progress of a background job (clearAll, clearAllRules,
+     * clearAllObjectTypes)
+     *
+     * @returns the job, or null if the id is unknown
+     *
+     * @example
+     * const job = await zanvex.getJob(ctx, jobId);
+     * // { kind: "clearTuples", status: "running", deleted: 12000, startedAt: ... }
+     */
+    getJob: (ctx: QueryCtx, jobId: string) =>
+      ctx.runQuery(component.jobs.getJob, { jobId }),
+
+    /** List the most recent background jobs, newest first (default 20) */
+    listJobs: (ctx: QueryCtx, options?: { limit?: number }) =>
+      ctx.runQuery(component.jobs.listJobs, { ...options }),
 
     // ============================================
     // PERMISSION RULES (Zanzibar-style DSL)
@@ -186,10 +425,16 @@ export function createZanvexClient(component: ComponentApi) {
      *   - "booker"              → Direct relation check
      *   - "owner->admin_of"     → Follow 'owner' relation, check 'admin_of' on target
      *   - "parent->edit | booker" → OR logic (either path grants access)
+     *   - "owner->member_of & booker" → AND logic (both paths must grant access)
+     *   - "parent->view - blocked" → Exclusion (deny if 'blocked' matches)
+     *   - "(owner->admin_of | booker) & parent->view" → Parenthesised sub-expressions
      *
      * @param objectType - The object type (e.g., "booking", "resource")
      * @param permission - The permission name (e.g., "view", "edit", "cancel")
      * @param expression - DSL expression (e.g., "parent->edit | booker")
+     * @throws ConvexError with data `{ code: "InvalidPermissionRule", errors }` if the
+     *   expression doesn't parse or references relations not declared in the registered
+     *   object types (see `validatePermission`)
      *
      * @example
      * // Direct relation check (booker can cancel their own booking)
@@ -204,6 +449,18 @@ export function createZanvexClient(component: ComponentApi) {
     definePermission: (ctx: MutationCtx, objectType: string, permission: string, expression: string) =>
       ctx.runMutation(component.rules.definePermission as any, { objectType, permission, expression }),
 
+    /**
+     * Check a rule against the registered object types without saving it
+     *
+     * @returns Problems with the character span to highlight, empty if valid
+     *
+     * @example
+     * const errors = await zanvex.validatePermission(ctx, "resource", "edit", "owenr->admin_of");
+     * // [{ message: 'Unknown relation "owenr" on "resource" (declared: owner)', start: 0, end: 5 }]
+     */
+    validatePermission: (ctx: QueryCtx, objectType: string, permission: string, expression: string) =>
+      ctx.runQuery(component.rules.validatePermission, { objectType, permission, expression }),
+
     /** Get a specific permission rule */
     getPermissionRule: (ctx: QueryCtx, objectType: string, permission: string) =>
       ctx.runQuery(component.rules.getPermissionRule as any, { objectType, permission }),
@@ -216,9 +473,110 @@ export function createZanvexClient(component: ComponentApi) {
     deletePermissionRule: (ctx: MutationCtx, objectType: string, permission: string) =>
       ctx.runMutation(component.rules.deletePermissionRule as any, { objectType, permission }),
 
-    /** Clear all permission rules */
-    clearAllRules: (ctx: MutationCtx) =>
-      ctx.runMutation(component.rules.clearAllRules as any, {}),
+    /**
+     * Migrate rules stored in the legacy flat format to expression trees
+     *
+     * @returns count of migrated rules
+     */
+    migrateLegacyRules: (ctx: MutationCtx) =>
+      ctx.runMutation(component.rules.migrateLegacyRules, {}),
+
+    /**
+     * Clear all permission rules (confirmation token "DELETE_ALL_RULES")
+     *
+     * @returns job id, for `getJob`
+     */
+    clearAllRules: (ctx: MutationCtx, confirm: "DELETE_ALL_RULES", options?: { batchSize?: number }) =>
+      ctx.runMutation(component.rules.clearAllRules, { confirm, ...options }),
+
+    // ============================================
+    // CAVEATS (CONDITIONAL TUPLES)
+    // ============================================
+
+    /**
+     * Define (or update) a caveat that tuples can reference
+     *
+     * @example
+     * await zanvex.defineCaveat(ctx, "business_hours", [{ name: "hour", type: "number" }], "hour >= 9 && hour < 17");
+     */
+    defineCaveat: (
+      ctx: MutationCtx,
+      name: string,
+      parameters: Array<{ name: string; type: "string" | "number" | "boolean" | "list" | "ipaddress" }>,
+      expression: string
+    ) => ctx.runMutation(component.caveats.defineCaveat, { name, parameters, expression }),
+
+    /** Get a specific caveat */
+    getCaveat: (ctx: QueryCtx, name: string) =>
+      ctx.runQuery(component.caveats.getCaveat, { name }),
+
+    /** List all caveats */
+    listCaveats: (ctx: QueryCtx) =>
+      ctx.runQuery(component.caveats.listCaveats, {}),
+
+    /** Delete a caveat */
+    deleteCaveat: (ctx: MutationCtx, name: string) =>
+      ctx.runMutation(component.caveats.deleteCaveat, { name }),
+
+    // ============================================
+    // SCHEMA LANGUAGE
+    // ============================================
+
+    /**
+     * Apply a whole schema (object types, relations and permission rules) at once
+     *
+     * Creates, updates and deletes so the stored schema matches the text, in one
+     * transaction. Throws a ConvexError with data `{ code: "InvalidSchema", errors }`
+     * (errors carry `start`/`end` spans into the text) and changes nothing if the
+     * schema is invalid.
+     *
+     * @returns The applied changes
+     *
+     * @example
+     * await zanvex.applySchema(ctx, `
+     *   definition user {}
+     *
+     *   definition org {
+     *     relation admin_of: user
+     *     relation member_of: user
+     *     permission read = admin_of | member_of
+     *   }
+     * `);
+     */
+    applySchema: (ctx: MutationCtx, schema: string) =>
+      ctx.runMutation(component.definitions.applySchema, { schema }),
+
+    /**
+     * Preview what applying a schema would change, flagging breaking changes
+     *
+     * Nothing is written. Breaking changes delete or narrow something that
+     * existing tuples or checks rely on (a relation tuples still use, a
+     * permission branch, a type with live rules); `affectedTuples` counts the
+     * tuples involved, up to 1000 per relation (`affectedTuplesTruncated` is
+     * set when a count was capped). Gate deploys on `breaking`.
+     *
+     * @example
+     * const { breaking, changes } = await zanvex.diffSchema(ctx, proposed);
+     * if (breaking) throw new Error(changes.filter((c) => c.breaking).map((c) => c.reason).join("\n"));
+     */
+    diffSchema: (ctx: QueryCtx, schema: string) =>
+      ctx.runQuery(component.definitions.diffSchema, { schema }),
+
+    /**
+     * Export the full authorization model, sorted and without ids
+     *
+     * `schema` is the schema text (object types, relations, permission rules)
+     * that `applySchema` reads back; `model` is the same as JSON plus the
+     * permission and relation catalogs. Equal models export identically, so
+     * exports can be checked into git and diffed across deployments.
+     * `warnings` lists parts of the model left out of `schema` because
+     * `applySchema` would reject them.
+     *
+     * @example
+     * const { schema, model, warnings } = await zanvex.exportSchema(ctx);
+     */
+    exportSchema: (ctx: QueryCtx) =>
+      ctx.runQuery(component.definitions.exportSchema, {}),
 
     // ============================================
     // OBJECT TYPES SCHEMA REGISTRY
@@ -232,13 +590,24 @@ export function createZanvexClient(component: ComponentApi) {
      *   name: "resource",
      *   description: "A bookable resource like a studio or room",
      *   relations: [
-     *     { name: "owner", targetType: "org", description: "The org that owns this resource" }
+     *     { name: "owner", targetTypes: [{ type: "org" }], description: "The org that owns this resource" },
+     *     { name: "booker", targetTypes: [{ type: "user" }, { type: "team", relation: "member" }] }, // user or team#member userset
+     *     { name: "viewer", targetTypes: [{ type: "user" }], allowWildcard: true } // allows { type: "user", id: "*" }
      *   ]
      * });
      */
     registerObjectType: (
       ctx: MutationCtx,
-      args: { name: string; description?: string; relations: Array<{ name: string; targetType: string; description?: string }> }
+      args: {
+        name: string;
+        description?: string;
+        relations: Array<{
+          name: string;
+          targetTypes: Array<{ type: string; relation?: string }>;
+          description?: string;
+          allowWildcard?: boolean;
+        }>;
+      }
     ) => ctx.runMutation(component.objectTypes.registerObjectType, args),
 
     /** Get a specific object type by name */
@@ -253,9 +622,21 @@ export function createZanvexClient(component: ComponentApi) {
     deleteObjectType: (ctx: MutationCtx, name: string) =>
       ctx.runMutation(component.objectTypes.deleteObjectType, { name }),
 
-    /** Clear all object types */
-    clearAllObjectTypes: (ctx: MutationCtx) =>
-      ctx.runMutation(component.objectTypes.clearAllObjectTypes, {}),
+    /**
+     * Migrate relations registered with a single `targetType` to `targetTypes`
+     *
+     * @returns count of migrated object types
+     */
+    migrateRelationTargets: (ctx: MutationCtx) =>
+      ctx.runMutation(component.objectTypes.migrateRelationTargets, {}),
+
+    /**
+     * Clear all object types (confirmation token "DELETE_ALL_OBJECT_TYPES")
+     *
+     * @returns job id, for `getJob`
+     */
+    clearAllObjectTypes: (ctx: MutationCtx, confirm: "DELETE_ALL_OBJECT_TYPES", options?: { batchSize?: number }) =>
+      ctx.runMutation(component.objectTypes.clearAllObjectTypes, { confirm, ...options }),
 
     /** Get valid relations for an object type (for UI dropdowns) */
     getRelationsForType: (ctx: QueryCtx, objectType: string) =>
@@ -265,6 +646,24 @@ export function createZanvexClient(component: ComponentApi) {
     getPermissionsForType: (ctx: QueryCtx, objectType: string) =>
       ctx.runQuery(component.objectTypes.getPermissionsForType, { objectType }),
 
+    /**
+     * Set how tuple writes are checked against the registered object types
+     *
+     * - "off" (default): no checks
+     * - "warn": log tuples with undeclared relations or wrong subject types, but write them
+     * - "enforce": reject them with a descriptive error
+     *
+     * @example
+     * await zanvex.setTupleValidation(ctx, "warn");    // Find offending writes in the logs
+     * await zanvex.setTupleValidation(ctx, "enforce"); // Then turn on enforcement
+     */
+    setTupleValidation: (ctx: MutationCtx, mode: "off" | "warn" | "enforce") =>
+      ctx.runMutation(component.settings.setTupleValidation, { mode }),
+
+    /** Get the deployment settings (e.g. the tuple validation mode) */
+    getSettings: (ctx: QueryCtx) =>
+      ctx.runQuery(component.settings.getSettings, {}),
+
     // ============================================
     // PERMISSION CATALOG
     // ============================================
@@ -341,10 +740,56 @@ export function createZanvexClient(component: ComponentApi) {
      *   object: { type: "booking", id: "booking-123" },
      * });
      * if (!result.allowed) throw new Error(`Forbidden: ${result.reason}`);
+     *
+     * // Caveated tuples are evaluated against `context`; if it lacks a
+     * // needed value the result lists it in `missingContext`
+     * const result = await zanvex.can(ctx, { ...args, context: { hour: new Date().getHours() } });
+     *
+     * // A userset subject: is access granted to every member of team:eng?
+     * await zanvex.can(ctx, { subject: { type: "team", id: "eng", relation: "member" }, action: "view", object });
      */
-    can: (ctx: QueryCtx, args: { subject: SubjectRef; action: string; object: ObjectRef }) =>
+    can: (ctx: QueryCtx, args: CanArgs) =>
       ctx.runQuery(component.permissions.can, mapCanArgs(args)),
 
+    /**
+     * Check many permissions in a single query
+     *
+     * Results come back in the same order as `checks`, sharing one traversal
+     * cache, so a list page can authorize every row in one reactive query.
+     * `maxDepth` applies to every check.
+     *
+     * @example
+     * const results = await zanvex.canMany(ctx, bookings.map((b) => ({
+     *   subject: { type: "user", id: "daniel" },
+     *   action: "cancel",
+     *   object: { type: "booking", id: b._id },
+     * })));
+     * const cancellable = bookings.filter((_, i) => results[i].allowed);
+     */
+    canMany: (ctx: QueryCtx, checks: Omit<CanArgs, "maxDepth">[], options?: { maxDepth?: number }) =>
+      ctx.runQuery(component.permissions.canMany, {
+        checks: checks.map(mapCanArgs),
+        ...(options?.maxDepth !== undefined && { maxDepth: options.maxDepth }),
+      }),
+
+    /**
+     * Count the database reads of a batch of checks, with and without the
+     * traversal cache
+     *
+     * Evaluates `checks` as `canMany` does, then again with nothing cached,
+     * and returns the index queries and documents read by each run. Meant
+     * for benchmarking; use `canMany` to authorize.
+     *
+     * @example
+     * const { cached, uncached } = await zanvex.measureReads(ctx, checks);
+     * console.log(`${cached.documents} documents read vs ${uncached.documents} uncached`);
+     */
+    measureReads: (ctx: QueryCtx, checks: Omit<CanArgs, "maxDepth">[], options?: { maxDepth?: number }) =>
+      ctx.runQuery(component.permissions.measureReads, {
+        checks: checks.map(mapCanArgs),
+        ...(options?.maxDepth !== undefined && { maxDepth: options.maxDepth }),
+      }),
+
     /**
      * Check permissions with detailed traversal path tracking
      *
@@ -358,7 +803,7 @@ export function createZanvexClient(component: ComponentApi) {
      * });
      * if (result.allowed) console.log("Allowed via:", result.matchedRule, result.path);
      */
-    canWithPath: (ctx: QueryCtx, args: { subject: SubjectRef; action: string; object: ObjectRef }) =>
+    canWithPath: (ctx: QueryCtx, args: CanArgs) =>
       ctx.runQuery(component.permissions.canWithPath, mapCanArgs(args)),
 
     /**
@@ -373,11 +818,94 @@ export function createZanvexClient(component: ComponentApi) {
      */
     getPermissionsForObject: (ctx: QueryCtx, args: { subject: SubjectRef; object: ObjectRef }) =>
       ctx.runQuery(component.permissions.getPermissionsForObject, mapPermsArgs(args)),
+
+    /**
+     * List the ids of objects of a type the subject can perform an action on
+     *
+     * Paginated by object id: pass `continueCursor` back as `cursor` until
+     * `isDone`.
+     *
+     * @example
+     * // Which bookings can daniel cancel?
+     * const { page, isDone, continueCursor } = await zanvex.lookupResources(ctx, {
+     *   subject: { type: "user", id: "daniel" },
+     *   action: "cancel",
+     *   objectType: "booking",
+     * }, { numItems: 50, cursor: null });
+     */
+    lookupResources: (
+      ctx: QueryCtx,
+      args: { subject: SubjectRef; action: string; objectType: string; context?: Record<string, unknown>; maxDepth?: number },
+      paginationOpts: PaginationOptions
+    ) =>
+      ctx.runQuery(component.permissions.lookupResources, {
+        ...mapSubject(args.subject),
+        action: args.action,
+        objectType: args.objectType,
+        ...(args.context !== undefined && { context: args.context }),
+        ...(args.maxDepth !== undefined && { maxDepth: args.maxDepth }),
+        paginationOpts,
+      }),
+
+    /**
+     * List every subject of a type that can perform an action on an object
+     *
+     * Expands computed relations, usersets and wildcards; each subject comes
+     * with the path that grants it.
+     *
+     * @example
+     * // Who can edit studio-a?
+     * const editors = await zanvex.lookupSubjects(ctx, {
+     *   object: { type: "resource", id: "studio-a" },
+     *   action: "edit",
+     *   subjectType: "user",
+     * });
+     */
+    lookupSubjects: (
+      ctx: QueryCtx,
+      args: { object: ObjectRef; action: string; subjectType: string; context?: Record<string, unknown>; maxDepth?: number }
+    ) =>
+      ctx.runQuery(component.permissions.lookupSubjects, {
+        ...mapObject(args.object),
+        action: args.action,
+        subjectType: args.subjectType,
+        ...(args.context !== undefined && { context: args.context }),
+        ...(args.maxDepth !== undefined && { maxDepth: args.maxDepth }),
+      }),
+
+    /**
+     * Expand a permission on an object into its full userset tree
+     *
+     * Not tied to a subject: shows every union, computed hop and userset
+     * down to the subjects holding each relation directly. Useful for
+     * debugging rules and rendering access trees.
+     *
+     * @example
+     * const tree = await zanvex.expand(ctx, { type: "booking", id: "123" }, "cancel");
+     * // → { kind: "permission", objectType: "booking", objectId: "123", permission: "cancel",
+     * //     children: [{ kind: "union", expression: "parent->edit | booker", children: [...] }] }
+     */
+    expand: async (
+      ctx: QueryCtx,
+      object: ObjectRef,
+      permission: string,
+      options?: { maxDepth?: number }
+    ): Promise<UsersetTree> =>
+      inflateUsersetTree(
+        await ctx.runQuery(component.permissions.expand, {
+          ...mapObject(object),
+          permission,
+          ...(options?.maxDepth !== undefined && { maxDepth: options.maxDepth }),
+        })
+      ),
   };
 }
 
 // Re-export types for convenience
 export type { ComponentApi };
 
-// Re-export traversal path types from component (single source of truth)
-export type { TraversalNode, TriedPath, PathResult } from "../component/permissions.js";
+// Re-export types from component (single source of truth)
+export type { TraversalNode, TriedPath, PathResult, ExpandNode } from "../component/permissions.js";
+export type { RuleValidationError } from "../component/rules.js";
+export type { ClassifiedSchemaChange, SchemaChange } from "../component/definitions.js";
+export type { TupleFilter } from "../component/tuples.js";
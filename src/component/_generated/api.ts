@@ -8,13 +8,19 @@
  * @module
  */
 
+import type * as caveatDsl from "../caveatDsl.js";
+import type * as caveats from "../caveats.js";
 import type * as check from "../check.js";
+import type * as definitions from "../definitions.js";
 import type * as dsl from "../dsl.js";
+import type * as jobs from "../jobs.js";
 import type * as objectTypes from "../objectTypes.js";
 import type * as permissionCatalog from "../permissionCatalog.js";
 import type * as permissions from "../permissions.js";
 import type * as relationCatalog from "../relationCatalog.js";
 import type * as rules from "../rules.js";
+import type * as schemaDsl from "../schemaDsl.js";
+import type * as settings from "../settings.js";
 import type * as tuples from "../tuples.js";
 
 import type {
@@ -25,13 +31,19 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  caveatDsl: typeof caveatDsl;
+  caveats: typeof caveats;
   check: typeof check;
+  definitions: typeof definitions;
   dsl: typeof dsl;
+  jobs: typeof jobs;
   objectTypes: typeof objectTypes;
   permissionCatalog: typeof permissionCatalog;
   permissions: typeof permissions;
   relationCatalog: typeof relationCatalog;
   rules: typeof rules;
+  schemaDsl: typeof schemaDsl;
+  settings: typeof settings;
   tuples: typeof tuples;
 }> = anyApi as any;
 
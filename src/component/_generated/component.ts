@@ -23,11 +23,63 @@ import type { FunctionReference } from "convex/server";
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
+    caveats: {
+      defineCaveat: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          expression: string;
+          name: string;
+          parameters: Array<{
+            name: string;
+            type: "string" | "number" | "boolean" | "list" | "ipaddress";
+          }>;
+        },
+        string,
+        Name
+      >;
+      deleteCaveat: FunctionReference<
+        "mutation",
+        "internal",
+        { name: string },
+        boolean,
+        Name
+      >;
+      getCaveat: FunctionReference<
+        "query",
+        "internal",
+        { name: string },
+        {
+          expression: string;
+          name: string;
+          parameters: Array<{
+            name: string;
+            type: "string" | "number" | "boolean" | "list" | "ipaddress";
+          }>;
+        } | null,
+        Name
+      >;
+      listCaveats: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          expression: string;
+          name: string;
+          parameters: Array<{
+            name: string;
+            type: "string" | "number" | "boolean" | "list" | "ipaddress";
+          }>;
+        }>,
+        Name
+      >;
+    };
     check: {
       check: FunctionReference<
         "query",
         "internal",
         {
+          legacyHop?: boolean;
           objectId: string;
           objectType: string;
           relation: string;
@@ -41,6 +93,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         {
+          legacyHop?: boolean;
           objectId: string;
           objectType: string;
           relation: string;
@@ -58,22 +111,182 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       listRelations: FunctionReference<
         "query",
         "internal",
-        { subjectId: string; subjectType: string },
-        Array<{ objectId: string; objectType: string; relation: string }>,
+        { subjectId: string; subjectRelation?: string; subjectType: string },
+        Array<{
+          objectId: string;
+          objectType: string;
+          relation: string;
+          subjectRelation?: string;
+        }>,
         Name
       >;
       listSubjects: FunctionReference<
         "query",
         "internal",
         { objectId: string; objectType: string; relation: string },
-        Array<{ subjectId: string; subjectType: string }>,
+        Array<{
+          subjectId: string;
+          subjectRelation?: string;
+          subjectType: string;
+        }>,
         Name
       >;
       listTuplesForObject: FunctionReference<
         "query",
         "internal",
         { objectId: string; objectType: string },
-        Array<{ relation: string; subjectId: string; subjectType: string }>,
+        Array<{
+          expiresAt?: number;
+          relation: string;
+          subjectId: string;
+          subjectRelation?: string;
+          subjectType: string;
+        }>,
+        Name
+      >;
+      readTuples: FunctionReference<
+        "query",
+        "internal",
+        {
+          objectId?: string;
+          objectType?: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          relation?: string;
+          subjectId?: string;
+          subjectRelation?: string | null;
+          subjectType?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            caveatContext?: Record<string, any>;
+            caveatName?: string;
+            expiresAt?: number;
+            objectId: string;
+            objectType: string;
+            relation: string;
+            subjectId: string;
+            subjectRelation?: string;
+            subjectType: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+    };
+    definitions: {
+      applySchema: FunctionReference<
+        "mutation",
+        "internal",
+        { schema: string },
+        Array<{
+          action: "create" | "update" | "delete";
+          after?: string;
+          before?: string;
+          kind: "objectType" | "relation" | "permission";
+          name?: string;
+          objectType: string;
+        }>,
+        Name
+      >;
+      diffSchema: FunctionReference<
+        "query",
+        "internal",
+        { schema: string },
+        {
+          breaking: boolean;
+          changes: Array<{
+            action: "create" | "update" | "delete";
+            affectedTuples: number;
+            affectedTuplesTruncated: boolean;
+            after?: string;
+            before?: string;
+            breaking: boolean;
+            kind: "objectType" | "relation" | "permission";
+            name?: string;
+            objectType: string;
+            reason?: string;
+          }>;
+        },
+        Name
+      >;
+      exportSchema: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          model: {
+            objectTypes: Array<{
+              description?: string;
+              name: string;
+              relations: Array<{
+                allowWildcard?: boolean;
+                description?: string;
+                name: string;
+                targetTypes: Array<{ relation?: string; type: string }>;
+              }>;
+            }>;
+            permissionCatalog: Array<{
+              category: string;
+              description?: string;
+              isActive: boolean;
+              label: string;
+              name: string;
+            }>;
+            permissionRules: Array<{
+              expression: string;
+              objectType: string;
+              permission: string;
+            }>;
+            relationCatalog: Array<{
+              description?: string;
+              isActive: boolean;
+              label: string;
+              name: string;
+            }>;
+          };
+          schema: string;
+          warnings: Array<string>;
+        },
+        Name
+      >;
+    };
+    jobs: {
+      getJob: FunctionReference<
+        "query",
+        "internal",
+        { jobId: string },
+        null | {
+          deleted: number;
+          finishedAt?: number;
+          jobId: string;
+          kind: "clearTuples" | "clearRules" | "clearObjectTypes";
+          startedAt: number;
+          status: "running" | "completed";
+        },
+        Name
+      >;
+      listJobs: FunctionReference<
+        "query",
+        "internal",
+        { limit?: number },
+        Array<{
+          deleted: number;
+          finishedAt?: number;
+          jobId: string;
+          kind: "clearTuples" | "clearRules" | "clearObjectTypes";
+          startedAt: number;
+          status: "running" | "completed";
+        }>,
         Name
       >;
     };
@@ -81,8 +294,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       clearAllObjectTypes: FunctionReference<
         "mutation",
         "internal",
-        {},
-        number,
+        { batchSize?: number; confirm: "DELETE_ALL_OBJECT_TYPES" },
+        string,
         Name
       >;
       deleteObjectType: FunctionReference<
@@ -100,9 +313,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           description?: string;
           name: string;
           relations: Array<{
+            allowWildcard?: boolean;
             description?: string;
             name: string;
-            targetType: string;
+            targetTypes: Array<{ relation?: string; type: string }>;
           }>;
         } | null,
         Name
@@ -118,7 +332,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         { objectType: string },
-        Array<{ description?: string; name: string; targetType: string }>,
+        Array<{
+          allowWildcard?: boolean;
+          description?: string;
+          name: string;
+          targetTypes: Array<{ relation?: string; type: string }>;
+        }>,
         Name
       >;
       listObjectTypes: FunctionReference<
@@ -129,13 +348,21 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           description?: string;
           name: string;
           relations: Array<{
+            allowWildcard?: boolean;
             description?: string;
             name: string;
-            targetType: string;
+            targetTypes: Array<{ relation?: string; type: string }>;
           }>;
         }>,
         Name
       >;
+      migrateRelationTargets: FunctionReference<
+        "mutation",
+        "internal",
+        {},
+        number,
+        Name
+      >;
       registerObjectType: FunctionReference<
         "mutation",
         "internal",
@@ -143,9 +370,10 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           description?: string;
           name: string;
           relations: Array<{
+            allowWildcard?: boolean;
             description?: string;
             name: string;
-            targetType: string;
+            targetTypes: Array<{ relation?: string; type: string }>;
           }>;
         },
         string,
@@ -191,12 +419,43 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           action: string;
+          context?: Record<string, any>;
+          maxDepth?: number;
           objectId: string;
           objectType: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
-        { allowed: boolean; path?: Array<string>; reason?: string },
+        {
+          allowed: boolean;
+          missingContext?: Array<string>;
+          path?: Array<string>;
+          reason?: string;
+        },
+        Name
+      >;
+      canMany: FunctionReference<
+        "query",
+        "internal",
+        {
+          checks: Array<{
+            action: string;
+            context?: Record<string, any>;
+            objectId: string;
+            objectType: string;
+            subjectId: string;
+            subjectRelation?: string;
+            subjectType: string;
+          }>;
+          maxDepth?: number;
+        },
+        Array<{
+          allowed: boolean;
+          missingContext?: Array<string>;
+          path?: Array<string>;
+          reason?: string;
+        }>,
         Name
       >;
       canWithPath: FunctionReference<
@@ -204,14 +463,18 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           action: string;
+          context?: Record<string, any>;
+          maxDepth?: number;
           objectId: string;
           objectType: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         {
           allowed: boolean;
           matchedRule?: string;
+          missingContext?: Array<string>;
           path?: Array<{
             depth: number;
             nodeId: string;
@@ -234,6 +497,41 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         },
         Name
       >;
+      expand: FunctionReference<
+        "query",
+        "internal",
+        {
+          maxDepth?: number;
+          objectId: string;
+          objectType: string;
+          permission: string;
+        },
+        {
+          nodes: Array<{
+            caveatName?: string;
+            children?: Array<number>;
+            expiresAt?: number;
+            expression?: string;
+            kind:
+              | "permission"
+              | "union"
+              | "intersection"
+              | "exclusion"
+              | "relation"
+              | "computed"
+              | "subject";
+            objectId?: string;
+            objectType?: string;
+            permission?: string;
+            relation?: string;
+            subjectId?: string;
+            subjectType?: string;
+            truncated?: "cycle" | "depth";
+          }>;
+          root: number;
+        },
+        Name
+      >;
       getPermissionsForObject: FunctionReference<
         "query",
         "internal",
@@ -255,6 +553,81 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         },
         Name
       >;
+      lookupResources: FunctionReference<
+        "query",
+        "internal",
+        {
+          action: string;
+          context?: Record<string, any>;
+          maxDepth?: number;
+          objectType: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          subjectId: string;
+          subjectType: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<string>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      lookupSubjects: FunctionReference<
+        "query",
+        "internal",
+        {
+          action: string;
+          context?: Record<string, any>;
+          maxDepth?: number;
+          objectId: string;
+          objectType: string;
+          subjectType: string;
+        },
+        Array<{
+          matchedRule?: string;
+          path: Array<{
+            depth: number;
+            nodeId: string;
+            nodeType: string;
+            permission?: string;
+            relation?: string;
+          }>;
+          subjectId: string;
+          subjectType: string;
+        }>,
+        Name
+      >;
+      measureReads: FunctionReference<
+        "query",
+        "internal",
+        {
+          checks: Array<{
+            action: string;
+            context?: Record<string, any>;
+            objectId: string;
+            objectType: string;
+            subjectId: string;
+            subjectRelation?: string;
+            subjectType: string;
+          }>;
+          maxDepth?: number;
+        },
+        {
+          allowed: Array<boolean>;
+          cached: { documents: number; queries: number };
+          uncached: { documents: number; queries: number };
+        },
+        Name
+      >;
     };
     relationCatalog: {
       deactivateRelationName: FunctionReference<
@@ -283,8 +656,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       clearAllRules: FunctionReference<
         "mutation",
         "internal",
-        {},
-        number,
+        { batchSize?: number; confirm: "DELETE_ALL_RULES" },
+        string,
         Name
       >;
       definePermission: FunctionReference<
@@ -315,9 +688,68 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         Array<{ expression: string; objectType: string; permission: string }>,
         Name
       >;
+      migrateLegacyRules: FunctionReference<
+        "mutation",
+        "internal",
+        {},
+        number,
+        Name
+      >;
+      validatePermission: FunctionReference<
+        "query",
+        "internal",
+        { expression: string; objectType: string; permission: string },
+        Array<{ end: number; message: string; start: number }>,
+        Name
+      >;
+    };
+    settings: {
+      getSettings: FunctionReference<
+        "query",
+        "internal",
+        {},
+        { tupleValidation: "off" | "warn" | "enforce" },
+        Name
+      >;
+      setTupleValidation: FunctionReference<
+        "mutation",
+        "internal",
+        { mode: "off" | "warn" | "enforce" },
+        null,
+        Name
+      >;
     };
     tuples: {
-      clearAll: FunctionReference<"mutation", "internal", {}, number, Name>;
+      clearAll: FunctionReference<
+        "mutation",
+        "internal",
+        { batchSize?: number; confirm: "DELETE_ALL_TUPLES" },
+        string,
+        Name
+      >;
+      deleteTuples: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          batchSize?: number;
+          cursor?: string;
+          objectId?: string;
+          objectType?: string;
+          relation?: string;
+          subjectId?: string;
+          subjectRelation?: string | null;
+          subjectType?: string;
+        },
+        { deleted: number; isDone: boolean },
+        Name
+      >;
+      purgeExpired: FunctionReference<
+        "mutation",
+        "internal",
+        { batchSize?: number },
+        number,
+        Name
+      >;
       remove: FunctionReference<
         "mutation",
         "internal",
@@ -326,6 +758,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           objectType: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         boolean,
@@ -335,28 +768,65 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         { objectId: string; objectType: string },
-        number,
+        { deleted: number; isDone: boolean },
         Name
       >;
       removeAllForSubject: FunctionReference<
         "mutation",
         "internal",
         { subjectId: string; subjectType: string },
-        number,
+        { deleted: number; isDone: boolean },
         Name
       >;
       write: FunctionReference<
         "mutation",
         "internal",
         {
+          caveatContext?: Record<string, any>;
+          caveatName?: string;
+          expiresAt?: number;
           objectId: string;
           objectType: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         string,
         Name
       >;
+      writeTuples: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          preconditions?: Array<{
+            filter: {
+              objectId?: string;
+              objectType?: string;
+              relation?: string;
+              subjectId?: string;
+              subjectRelation?: string | null;
+              subjectType?: string;
+            };
+            operation: "mustMatch" | "mustNotMatch";
+          }>;
+          updates: Array<{
+            operation: "create" | "touch" | "delete";
+            tuple: {
+              caveatContext?: Record<string, any>;
+              caveatName?: string;
+              expiresAt?: number;
+              objectId: string;
+              objectType: string;
+              relation: string;
+              subjectId: string;
+              subjectRelation?: string;
+              subjectType: string;
+            };
+          }>;
+        },
+        Array<string | boolean>,
+        Name
+      >;
     };
   };
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "vitest";
+import { caveatParameters, evaluateCaveat, parseCaveatExpression } from "./caveatDsl.js";
+
+function evaluate(expression: string, context: Record<string, unknown> = {}) {
+  return evaluateCaveat(parseCaveatExpression(expression), context);
+}
+
+const satisfied = { status: "satisfied" };
+const unsatisfied = { status: "unsatisfied" };
+
+describe("parseCaveatExpression", () => {
+  test("lists the parameters an expression references", () => {
+    expect(caveatParameters(parseCaveatExpression("hour >= start && !(hour > end) || role in [range, 'admin']")))
+      .toEqual(["hour", "start", "end", "role", "range"]);
+  });
+
+  test.each([
+    ["", /cannot be empty/],
+    ["hour >= 9 &&", /Unexpected end of caveat expression/],
+    ["hour >= 9 )", /Unexpected "\)" in caveat expression/],
+    ["(hour >= 9", /Expected "\)" in caveat expression, found ""/],
+    ["role in [\"a\" \"b\"]", /Expected "," in caveat expression, found "b"/],
+    ["now() > 9", /Unknown caveat function "now"/],
+    ["toString(ip)", /Unknown caveat function "toString"/],
+    ["hour >= 9 ; drop", /Unexpected character ";" in caveat expression at position 10/],
+    ["hour = 9", /Unexpected character "=" in caveat expression at position 5/],
+  ])("rejects %j", (expression, message) => {
+    expect(() => parseCaveatExpression(expression)).toThrow(message);
+  });
+});
+
+describe("evaluateCaveat", () => {
+  test.each([
+    ["hour == 9", { hour: 9 }, satisfied],
+    ["hour != 9", { hour: 9 }, unsatisfied],
+    ["hour < 9", { hour: 8 }, satisfied],
+    ["hour <= 9", { hour: 9 }, satisfied],
+    ["hour > 9", { hour: 9 }, unsatisfied],
+    ["hour >= 9", { hour: 9 }, satisfied],
+    ["name < 'm'", { name: "alice" }, satisfied],
+    ["tags == [\"a\", 1]", { tags: ["a", 1] }, satisfied],
+    ["role in [\"admin\", \"owner\"]", { role: "owner" }, satisfied],
+    ["role in roles", { role: "guest", roles: ["admin"] }, unsatisfied],
+    ["!banned", { banned: false }, satisfied],
+    ["-offset < 0", { offset: 2 }, satisfied],
+    ["-1 < x", { x: 0 }, satisfied],
+    ["x > -2.5", { x: -2 }, satisfied],
+    ["hour >= 9 && hour < 17", { hour: 12 }, satisfied],
+    ["hour >= 9 && hour < 17", { hour: 18 }, unsatisfied],
+    ["a || b && c", { a: true, b: false, c: false }, satisfied],
+    ["(a || b) && c", { a: true, b: false, c: false }, unsatisfied],
+    ["!a && b", { a: false, b: true }, satisfied],
+    ["inCidr(ip, \"10.0.0.0/8\")", { ip: "10.1.2.3" }, satisfied],
+    ["inCidr(ip, \"10.0.0.0/8\")", { ip: "11.1.2.3" }, unsatisfied],
+    ["inCidr(ip, \"192.168.1.7\")", { ip: "192.168.1.7" }, satisfied],
+    ["inCidr(ip, \"0.0.0.0/0\")", { ip: "8.8.8.8" }, satisfied],
+  ])("evaluates %s with %j", (expression, context, expected) => {
+    expect(evaluate(expression, context)).toEqual(expected);
+  });
+
+  test("reports every parameter the result depends on as missing", () => {
+    expect(evaluate("hour >= start", {})).toEqual({ status: "missing", missing: ["hour", "start"] });
+    expect(evaluate("hour >= 9 && role in roles", { hour: 10 })).toEqual({
+      status: "missing",
+      missing: ["role", "roles"],
+    });
+    expect(evaluate("!banned", { banned: undefined })).toEqual({ status: "missing", missing: ["banned"] });
+    expect(evaluate("inCidr(ip, cidr)", { cidr: "10.0.0.0/8" })).toEqual({ status: "missing", missing: ["ip"] });
+  });
+
+  test("short-circuits past missing parameters when one side decides", () => {
+    expect(evaluate("admin || hour >= 9", { admin: true })).toEqual(satisfied);
+    expect(evaluate("hour >= 9 || admin", { admin: true })).toEqual(satisfied);
+    expect(evaluate("admin && hour >= 9", { admin: false })).toEqual(unsatisfied);
+    expect(evaluate("hour >= 9 && admin", { admin: false })).toEqual(unsatisfied);
+    // An undecided side keeps the result missing
+    expect(evaluate("admin || hour >= 9", { admin: false })).toEqual({ status: "missing", missing: ["hour"] });
+    expect(evaluate("admin && hour >= 9", { admin: true })).toEqual({ status: "missing", missing: ["hour"] });
+  });
+
+  test("ignores inherited properties of the context", () => {
+    expect(evaluate("constructor == 1", {})).toEqual({ status: "missing", missing: ["constructor"] });
+    expect(evaluate("toString", {})).toEqual({ status: "missing", missing: ["toString"] });
+  });
+
+  test.each([
+    ["hour", { hour: 9 }, /must evaluate to a boolean/],
+    ["hour < \"9\"", { hour: 8 }, /Cannot compare 8 < "9"/],
+    ["flag > false", { flag: true }, /Cannot compare true > false/],
+    ["tags < tags", { tags: [] }, /Cannot compare \[\] < \[\]/],
+    ["role in \"admin\"", { role: "admin" }, /Right side of "in" must be a list/],
+    ["!hour", { hour: 1 }, /Expected a boolean in caveat expression, got 1/],
+    ["hour && true", { hour: 1 }, /Expected a boolean in caveat expression, got 1/],
+    ["-name == 1", { name: "x" }, /Cannot negate "x"/],
+    ["inCidr(ip, 8)", { ip: "10.0.0.1" }, /inCidr\(ip, cidr\) expects two strings/],
+    ["inCidr(ip, \"10.0.0.0/33\")", { ip: "10.0.0.1" }, /Invalid CIDR range "10.0.0.0\/33"/],
+    ["inCidr(ip, \"10.0.0.0/8\")", { ip: "10.0.0.256" }, /Invalid IPv4 address "10.0.0.256"/],
+  ])("throws a type error for %s with %j", (expression, context, message) => {
+    expect(() => evaluate(expression, context)).toThrow(message);
+  });
+});
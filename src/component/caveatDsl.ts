@@ -0,0 +1,382 @@
+/**
+ * Caveat Expression Language
+ *
+ * A small, side-effect free expression language for caveats: conditions
+ * attached to relationship tuples that are evaluated against context at
+ * check time (SpiceDB-style).
+ *
+ * Syntax:
+ *   - Literals:    42, -3.5, "text", 'text', true, false, ["a", "b"]
+ *   - Parameters:  hour, ip, allowed_range
+ *   - Comparison:  ==  !=  <  <=  >  >=
+ *   - Negation:    -offset, -1 < x
+ *   - Membership:  role in ["admin", "owner"]
+ *   - Logic:       &&  ||  !   (with parentheses for grouping)
+ *   - Functions:   inCidr(ip, "10.0.0.0/8")  → IPv4 address within CIDR range
+ *
+ * Examples:
+ *   "hour >= 9 && hour < 17"          → business hours
+ *   "inCidr(ip, allowed_range)"       → request IP within the tuple's range
+ *
+ * Evaluation is three-valued: when a parameter the result depends on is
+ * missing from the context, the result is "missing" (with the parameter
+ * names) rather than true or false. `&&` and `||` short-circuit, so
+ * `false && missing` is still false and `true || missing` is still true.
+ */
+
+/**
+ * A node of a parsed caveat expression
+ */
+export type CaveatNode =
+  | { type: "literal"; value: CaveatValue }
+  | { type: "param"; name: string }
+  | { type: "list"; items: CaveatNode[] }
+  | { type: "not"; operand: CaveatNode }
+  | { type: "negate"; operand: CaveatNode }
+  | { type: "and" | "or"; left: CaveatNode; right: CaveatNode }
+  | { type: "compare"; operator: CompareOperator; left: CaveatNode; right: CaveatNode }
+  | { type: "call"; name: CaveatFunction; args: CaveatNode[] };
+
+export type CaveatValue = string | number | boolean | CaveatValue[];
+
+type CompareOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+type CaveatFunction = keyof typeof FUNCTIONS;
+
+/**
+ * Result of evaluating a caveat against context
+ */
+export type CaveatResult =
+  | { status: "satisfied" }
+  | { status: "unsatisfied" }
+  | { status: "missing"; missing: string[] };
+
+/**
+ * Built-in functions available to caveat expressions
+ */
+const FUNCTIONS = {
+  inCidr: (ip: CaveatValue, cidr: CaveatValue): boolean => {
+    if (typeof ip !== "string" || typeof cidr !== "string") {
+      throw new Error("inCidr(ip, cidr) expects two strings");
+    }
+    const [range, bitsText = "32"] = cidr.split("/");
+    const bits = Number(bitsText);
+    if (!Number.isInteger(bits) || bits < 0 || bits > 32) {
+      throw new Error(`Invalid CIDR range "${cidr}"`);
+    }
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((parseIpv4(ip) & mask) >>> 0) === ((parseIpv4(range) & mask) >>> 0);
+  },
+};
+
+function parseIpv4(address: string): number {
+  const octets = address.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((o) => !Number.isInteger(o) || o < 0 || o > 255)) {
+    throw new Error(`Invalid IPv4 address "${address}"`);
+  }
+  return octets.reduce((acc, octet) => ((acc << 8) | octet) >>> 0, 0);
+}
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+(?:\.\d+)?)|"([^"]*)"|'([^']*)'|([a-zA-Z_][a-zA-Z0-9_]*)|(&&|\|\||==|!=|<=|>=|[<>!(),[\]-]))/y;
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "ident"; value: string }
+  | { kind: "punct"; value: string }
+  | { kind: "eof"; value: "" };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    if (expression.slice(start).trim().length === 0) break;
+
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      const at = expression.length - expression.slice(start).trimStart().length;
+      throw new Error(`Unexpected character "${expression[at]}" in caveat expression at position ${at}`);
+    }
+
+    const [, number, dquoted, squoted, ident, punct] = match;
+    if (number !== undefined) tokens.push({ kind: "number", value: Number(number) });
+    else if (dquoted !== undefined) tokens.push({ kind: "string", value: dquoted });
+    else if (squoted !== undefined) tokens.push({ kind: "string", value: squoted });
+    else if (ident !== undefined) tokens.push({ kind: "ident", value: ident });
+    else tokens.push({ kind: "punct", value: punct });
+  }
+
+  tokens.push({ kind: "eof", value: "" });
+  return tokens;
+}
+
+/**
+ * Parse a caveat expression
+ *
+ * @throws Error if the expression is invalid or calls an unknown function
+ */
+export function parseCaveatExpression(expression: string): CaveatNode {
+  if (!expression || expression.trim().length === 0) {
+    throw new Error("Caveat expression cannot be empty");
+  }
+
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isPunct = (value: string) => peek().kind === "punct" && peek().value === value;
+  const expect = (value: string) => {
+    const token = next();
+    if (token.kind !== "punct" || token.value !== value) {
+      throw new Error(`Expected "${value}" in caveat expression, found "${token.value}"`);
+    }
+  };
+
+  const parseOr = (): CaveatNode => {
+    let node = parseAnd();
+    while (isPunct("||")) {
+      next();
+      node = { type: "or", left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): CaveatNode => {
+    let node = parseUnary();
+    while (isPunct("&&")) {
+      next();
+      node = { type: "and", left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): CaveatNode => {
+    if (isPunct("!")) {
+      next();
+      return { type: "not", operand: parseUnary() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): CaveatNode => {
+    const left = parsePrimary();
+    const token = peek();
+    const isCompare =
+      (token.kind === "punct" && ["==", "!=", "<", "<=", ">", ">="].includes(token.value)) ||
+      (token.kind === "ident" && token.value === "in");
+
+    if (!isCompare) return left;
+    next();
+    return {
+      type: "compare",
+      operator: token.value as CompareOperator,
+      left,
+      right: parsePrimary(),
+    };
+  };
+
+  const parsePrimary = (): CaveatNode => {
+    const token = next();
+
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "ident": {
+        if (token.value === "true" || token.value === "false") {
+          return { type: "literal", value: token.value === "true" };
+        }
+        if (!isPunct("(")) {
+          return { type: "param", name: token.value };
+        }
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+          throw new Error(`Unknown caveat function "${token.value}"`);
+        }
+        next();
+        const args: CaveatNode[] = [];
+        while (!isPunct(")")) {
+          args.push(parseOr());
+          if (!isPunct(")")) expect(",");
+        }
+        next();
+        return { type: "call", name: token.value as CaveatFunction, args };
+      }
+      case "punct":
+        if (token.value === "-") {
+          return { type: "negate", operand: parsePrimary() };
+        }
+        if (token.value === "(") {
+          const inner = parseOr();
+          expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: CaveatNode[] = [];
+          while (!isPunct("]")) {
+            items.push(parseOr());
+            if (!isPunct("]")) expect(",");
+          }
+          next();
+          return { type: "list", items };
+        }
+    }
+
+    throw new Error(
+      `Unexpected ${token.kind === "eof" ? "end of caveat expression" : `"${token.value}"`}`
+    );
+  };
+
+  const root = parseOr();
+  if (peek().kind !== "eof") {
+    throw new Error(`Unexpected "${peek().value}" in caveat expression`);
+  }
+  return root;
+}
+
+/**
+ * List the parameter names referenced by a caveat expression
+ */
+export function caveatParameters(node: CaveatNode): string[] {
+  switch (node.type) {
+    case "literal":
+      return [];
+    case "param":
+      return [node.name];
+    case "list":
+      return [...new Set(node.items.flatMap(caveatParameters))];
+    case "not":
+    case "negate":
+      return caveatParameters(node.operand);
+    case "and":
+    case "or":
+    case "compare":
+      return [...new Set([...caveatParameters(node.left), ...caveatParameters(node.right)])];
+    case "call":
+      return [...new Set(node.args.flatMap(caveatParameters))];
+  }
+}
+
+type Evaluated = { value: CaveatValue } | { missing: string[] };
+
+/**
+ * Evaluate a caveat expression against context
+ *
+ * @throws Error on type errors (e.g. comparing a string with "<" to a number)
+ */
+export function evaluateCaveat(
+  node: CaveatNode,
+  context: Record<string, unknown>
+): CaveatResult {
+  const result = evaluate(node, context);
+
+  if ("missing" in result) {
+    return { status: "missing", missing: result.missing };
+  }
+  if (typeof result.value !== "boolean") {
+    throw new Error("Caveat expression must evaluate to a boolean");
+  }
+  return { status: result.value ? "satisfied" : "unsatisfied" };
+}
+
+function evaluate(node: CaveatNode, context: Record<string, unknown>): Evaluated {
+  switch (node.type) {
+    case "literal":
+      return { value: node.value };
+
+    case "param":
+      return !Object.prototype.hasOwnProperty.call(context, node.name) || context[node.name] === undefined
+        ? { missing: [node.name] }
+        : { value: context[node.name] as CaveatValue };
+
+    case "list":
+      return combine(node.items.map((item) => evaluate(item, context)), (values) => values);
+
+    case "not":
+      return combine([evaluate(node.operand, context)], ([value]) => !asBoolean(value));
+
+    case "negate":
+      return combine([evaluate(node.operand, context)], ([value]) => {
+        if (typeof value !== "number") {
+          throw new Error(`Cannot negate ${JSON.stringify(value)} in caveat expression`);
+        }
+        return -value;
+      });
+
+    case "and":
+    case "or": {
+      // Short-circuit: a decisive side wins even if the other is missing
+      const decisive = node.type === "or";
+      const left = evaluate(node.left, context);
+      if ("value" in left && asBoolean(left.value) === decisive) return left;
+      const right = evaluate(node.right, context);
+      if ("value" in right && asBoolean(right.value) === decisive) return right;
+      return combine([left, right], ([, value]) => asBoolean(value));
+    }
+
+    case "compare":
+      return combine(
+        [evaluate(node.left, context), evaluate(node.right, context)],
+        ([left, right]) => compare(node.operator, left, right)
+      );
+
+    case "call":
+      return combine(node.args.map((arg) => evaluate(arg, context)), (values) =>
+        (FUNCTIONS[node.name] as (...args: CaveatValue[]) => CaveatValue)(...values)
+      );
+  }
+}
+
+/**
+ * Apply `fn` to evaluated operands, or propagate missing parameters
+ */
+function combine(
+  operands: Evaluated[],
+  fn: (values: CaveatValue[]) => CaveatValue
+): Evaluated {
+  const missing = operands.flatMap((o) => ("missing" in o ? o.missing : []));
+  if (missing.length > 0) {
+    return { missing: [...new Set(missing)] };
+  }
+  return { value: fn(operands.map((o) => (o as { value: CaveatValue }).value)) };
+}
+
+function asBoolean(value: CaveatValue): boolean {
+  if (typeof value !== "boolean") {
+    throw new Error(`Expected a boolean in caveat expression, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function compare(operator: CompareOperator, left: CaveatValue, right: CaveatValue): boolean {
+  switch (operator) {
+    case "==":
+      return JSON.stringify(left) === JSON.stringify(right);
+    case "!=":
+      return JSON.stringify(left) !== JSON.stringify(right);
+    case "in":
+      if (!Array.isArray(right)) {
+        throw new Error(`Right side of "in" must be a list`);
+      }
+      return right.some((item) => JSON.stringify(item) === JSON.stringify(left));
+  }
+
+  if (typeof left !== typeof right || (typeof left !== "number" && typeof left !== "string")) {
+    throw new Error(
+      `Cannot compare ${JSON.stringify(left)} ${operator} ${JSON.stringify(right)}`
+    );
+  }
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+  }
+}
@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+import { mutation, query, type QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import {
+  caveatParameters,
+  evaluateCaveat,
+  parseCaveatExpression,
+  type CaveatResult,
+} from "./caveatDsl.js";
+
+/**
+ * Caveat Definitions CRUD
+ *
+ * Manage named caveats: conditions that tuples can reference so they only
+ * grant access when the condition holds for the request context
+ * (e.g. "editor only during business hours").
+ */
+
+const parameterSchema = v.object({
+  name: v.string(),
+  type: v.union(
+    v.literal("string"),
+    v.literal("number"),
+    v.literal("boolean"),
+    v.literal("list"),
+    v.literal("ipaddress")
+  ),
+});
+
+const caveatSchema = v.object({
+  name: v.string(),
+  parameters: v.array(parameterSchema),
+  expression: v.string(),
+});
+
+/**
+ * Define (or update) a caveat
+ *
+ * The expression must parse and may only reference declared parameters.
+ *
+ * @example
+ * defineCaveat("business_hours", [{ name: "hour", type: "number" }], "hour >= 9 && hour < 17")
+ * defineCaveat("ip_allowlist", [{ name: "ip", type: "ipaddress" }, { name: "cidr", type: "string" }], "inCidr(ip, cidr)")
+ */
+export const defineCaveat = mutation({
+  args: {
+    name: v.string(),
+    parameters: v.array(parameterSchema),
+    expression: v.string(),
+  },
+  returns: v.id("caveats"),
+  handler: async (ctx, { name, parameters, expression }) => {
+    const declared = new Set(parameters.map((p) => p.name));
+    const undeclared = caveatParameters(parseCaveatExpression(expression)).filter(
+      (param) => !declared.has(param)
+    );
+    if (undeclared.length > 0) {
+      throw new Error(
+        `Caveat "${name}" references undeclared parameters: ${undeclared.join(", ")}`
+      );
+    }
+
+    // Upsert: Check if caveat already exists
+    const existing = await ctx.db
+      .query("caveats")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { parameters, expression });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("caveats", { name, parameters, expression });
+  },
+});
+
+/**
+ * Get a specific caveat
+ */
+export const getCaveat = query({
+  args: { name: v.string() },
+  returns: v.union(caveatSchema, v.null()),
+  handler: async (ctx, { name }) => {
+    const caveat = await ctx.db
+      .query("caveats")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+
+    if (!caveat) return null;
+
+    return {
+      name: caveat.name,
+      parameters: caveat.parameters,
+      expression: caveat.expression,
+    };
+  },
+});
+
+/**
+ * List all caveats
+ */
+export const listCaveats = query({
+  args: {},
+  returns: v.array(caveatSchema),
+  handler: async (ctx) => {
+    const caveats = await ctx.db.query("caveats").collect();
+
+    return caveats.map((c) => ({
+      name: c.name,
+      parameters: c.parameters,
+      expression: c.expression,
+    }));
+  },
+});
+
+/**
+ * Delete a caveat
+ *
+ * WARNING: Tuples still referencing it stop granting access
+ */
+export const deleteCaveat = mutation({
+  args: { name: v.string() },
+  returns: v.boolean(),
+  handler: async (ctx, { name }) => {
+    const existing = await ctx.db
+      .query("caveats")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+
+    if (!existing) return false;
+
+    await ctx.db.delete(existing._id);
+    return true;
+  },
+});
+
+/**
+ * Result of checking a tuple's caveat: the caveat's own result, or an
+ * error (unknown caveat, wrongly typed context value, evaluation failure)
+ */
+export type TupleCaveatResult = CaveatResult | { status: "error"; message: string };
+
+/**
+ * Evaluate the caveat attached to a tuple, if any
+ *
+ * Values stored on the tuple (`caveatContext`) take precedence over the
+ * request context, so callers can't override them.
+ */
+export async function checkTupleCaveat(
+  ctx: QueryCtx,
+  tuple: Doc<"tuples">,
+  context: Record<string, unknown> | undefined
+): Promise<TupleCaveatResult> {
+  if (tuple.caveatName === undefined) {
+    return { status: "satisfied" };
+  }
+
+  const caveat = await ctx.db
+    .query("caveats")
+    .withIndex("by_name", (q) => q.eq("name", tuple.caveatName!))
+    .first();
+
+  if (!caveat) {
+    return { status: "error", message: `Unknown caveat "${tuple.caveatName}"` };
+  }
+
+  const merged: Record<string, unknown> = { ...context, ...tuple.caveatContext };
+
+  for (const param of caveat.parameters) {
+    const value = Object.prototype.hasOwnProperty.call(merged, param.name) ? merged[param.name] : undefined;
+    if (value !== undefined && !matchesParameterType(value, param.type)) {
+      return {
+        status: "error",
+        message: `Caveat "${caveat.name}" parameter "${param.name}" must be a ${param.type}`,
+      };
+    }
+  }
+
+  try {
+    return evaluateCaveat(parseCaveatExpression(caveat.expression), merged);
+  } catch (error) {
+    return {
+      status: "error",
+      message: `Caveat "${caveat.name}" failed: ${(error as Error).message}`,
+    };
+  }
+}
+
+function matchesParameterType(
+  value: unknown,
+  type: Doc<"caveats">["parameters"][number]["type"]
+): boolean {
+  switch (type) {
+    case "list":
+      return Array.isArray(value);
+    case "ipaddress":
+      return typeof value === "string" && /^\d{1,3}(\.\d{1,3}){3}$/.test(value);
+    default:
+      return typeof value === type;
+  }
+}
@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+type ConvexTest = ReturnType<typeof initConvexTest>;
+
+const resource = { objectType: "resource", objectId: "studio-a" };
+const alice = { subjectType: "user", subjectId: "alice" }; // admin of acme
+const bob = { subjectType: "user", subjectId: "bob" }; // member of acme
+const carol = { subjectType: "user", subjectId: "carol" }; // outsider
+
+/**
+ * org:acme owns resource:studio-a; alice administers acme, bob is a member
+ */
+async function seedGraph(t: ConvexTest) {
+  await t.mutation(api.objectTypes.registerObjectType, {
+    name: "org",
+    relations: [
+      { name: "admin_of", targetTypes: [{ type: "user" }] },
+      { name: "member_of", targetTypes: [{ type: "user" }] },
+    ],
+  });
+  await t.mutation(api.objectTypes.registerObjectType, {
+    name: "resource",
+    relations: [{ name: "owner", targetTypes: [{ type: "org" }] }],
+  });
+  await t.mutation(api.rules.definePermission, {
+    objectType: "resource",
+    permission: "update",
+    expression: "owner->admin_of | owner->member_of",
+  });
+  await t.mutation(api.rules.definePermission, {
+    objectType: "resource",
+    permission: "delete",
+    expression: "owner->admin_of",
+  });
+
+  await t.mutation(api.tuples.write, {
+    ...resource,
+    relation: "owner",
+    subjectType: "org",
+    subjectId: "acme",
+  });
+  await t.mutation(api.tuples.write, {
+    objectType: "org",
+    objectId: "acme",
+    relation: "admin_of",
+    ...alice,
+  });
+  await t.mutation(api.tuples.write, {
+    objectType: "org",
+    objectId: "acme",
+    relation: "member_of",
+    ...bob,
+  });
+}
+
+describe("check", () => {
+  let t: ConvexTest;
+
+  beforeEach(async () => {
+    t = initConvexTest();
+    await seedGraph(t);
+  });
+
+  test("evaluates permission rules", async () => {
+    const check = (relation: string, subject: typeof alice) =>
+      t.query(api.check.check, { ...resource, relation, ...subject });
+
+    expect(await check("update", alice)).toBe(true);
+    expect(await check("update", bob)).toBe(true);
+    expect(await check("update", carol)).toBe(false);
+    expect(await check("delete", alice)).toBe(true);
+    expect(await check("delete", bob)).toBe(false);
+    expect(await check("delete", carol)).toBe(false);
+  });
+
+  test("reports the relation and object that granted access", async () => {
+    expect(
+      await t.query(api.check.checkWithPath, { ...resource, relation: "update", ...bob })
+    ).toEqual({
+      granted: true,
+      direct: false,
+      relation: "member_of",
+      via: { type: "org", id: "acme" },
+    });
+    expect(
+      await t.query(api.check.checkWithPath, {
+        objectType: "org",
+        objectId: "acme",
+        relation: "admin_of",
+        ...alice,
+      })
+    ).toEqual({ granted: true, direct: true, relation: "admin_of" });
+  });
+
+  test("no longer grants a relation held by the subject's org", async () => {
+    // Before rules were honoured, membership in the owner org granted "owner"
+    expect(await t.query(api.check.check, { ...resource, relation: "owner", ...bob })).toBe(false);
+    expect(await t.query(api.check.check, { ...resource, relation: "owner", ...alice })).toBe(false);
+  });
+
+  test("legacyHop keeps the old 1-hop membership traversal", async () => {
+    const legacy = (relation: string, subject: typeof alice) =>
+      t.query(api.check.checkWithPath, { ...resource, relation, ...subject, legacyHop: true });
+
+    expect(await legacy("owner", bob)).toEqual({
+      granted: true,
+      direct: false,
+      relation: "member_of",
+      via: { type: "org", id: "acme" },
+    });
+    expect(await legacy("owner", alice)).toEqual({
+      granted: true,
+      direct: false,
+      relation: "admin_of",
+      via: { type: "org", id: "acme" },
+    });
+    expect(await legacy("owner", carol)).toEqual({ granted: false, direct: false });
+
+    // Rules are ignored in compatibility mode
+    expect(await legacy("update", alice)).toEqual({ granted: false, direct: false });
+  });
+
+});
+
+/**
+ * The example app's demo model (DEMO_SCHEMA in example/convex/constants.ts)
+ */
+const DEMO_SCHEMA = `
+definition user {}
+
+definition org {
+  relation admin_of: user
+  relation member_of: user
+
+  permission read = admin_of | member_of
+  permission update = admin_of
+  permission delete = admin_of
+}
+
+definition resource {
+  relation owner: org
+
+  permission create = owner->admin_of
+  permission read = owner->admin_of | owner->member_of
+  permission update = owner->admin_of | owner->member_of
+  permission delete = owner->admin_of
+}
+
+definition booking {
+  relation parent: resource
+  relation booker: user
+
+  permission create = parent->update
+  permission read = parent->read | booker
+  permission update = parent->update | booker
+  permission delete = parent->delete
+}
+`;
+
+/**
+ * The example app's demo data (seed:seedDemoData): two orgs with an admin
+ * and a member each, two resources per org, and one booking per resource
+ * by an outside customer
+ */
+const DEMO_TUPLES: [string, string, string, string, string][] = [
+  ["org", "acme", "admin_of", "user", "alice"],
+  ["org", "acme", "member_of", "user", "bob"],
+  ["org", "betaco", "admin_of", "user", "charlie"],
+  ["org", "betaco", "member_of", "user", "diana"],
+  ["resource", "studio-a", "owner", "org", "acme"],
+  ["resource", "studio-b", "owner", "org", "acme"],
+  ["resource", "studio-x", "owner", "org", "betaco"],
+  ["resource", "studio-y", "owner", "org", "betaco"],
+  ["booking", "booking-a", "parent", "resource", "studio-a"],
+  ["booking", "booking-a", "booker", "user", "customer-a"],
+  ["booking", "booking-b", "parent", "resource", "studio-b"],
+  ["booking", "booking-b", "booker", "user", "customer-b"],
+  ["booking", "booking-x", "parent", "resource", "studio-x"],
+  ["booking", "booking-x", "booker", "user", "customer-c"],
+  ["booking", "booking-y", "parent", "resource", "studio-y"],
+  ["booking", "booking-y", "booker", "user", "customer-d"],
+];
+
+describe("check and can parity on the demo graph", () => {
+  test("agree for every subject, object and action", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.definitions.applySchema, { schema: DEMO_SCHEMA });
+    for (const [objectType, objectId, relation, subjectType, subjectId] of DEMO_TUPLES) {
+      await t.mutation(api.tuples.write, { objectType, objectId, relation, subjectType, subjectId });
+    }
+
+    const users = ["alice", "bob", "charlie", "diana", "customer-a", "customer-b", "customer-c", "customer-d"];
+    const objects = [
+      ...new Map(DEMO_TUPLES.map(([type, id]) => [`${type}:${id}`, { objectType: type, objectId: id }])).values(),
+    ];
+    const actions = ["create", "read", "update", "delete", "admin_of", "member_of", "owner", "parent", "booker"];
+
+    let granted = 0;
+    for (const object of objects) {
+      for (const subjectId of users) {
+        for (const action of actions) {
+          const subject = { subjectType: "user", subjectId };
+          const [viaCheck, viaCheckWithPath, viaCan, viaCanWithPath] = await Promise.all([
+            t.query(api.check.check, { ...object, relation: action, ...subject }),
+            t.query(api.check.checkWithPath, { ...object, relation: action, ...subject }),
+            t.query(api.permissions.can, { ...object, action, ...subject }),
+            t.query(api.permissions.canWithPath, { ...object, action, ...subject }),
+          ]);
+          const label = `${object.objectType}:${object.objectId} ${action} user:${subjectId}`;
+
+          expect(viaCheck, label).toBe(viaCan.allowed);
+          expect(viaCheckWithPath.granted, label).toBe(viaCanWithPath.allowed);
+          if (viaCanWithPath.allowed) {
+            expect(viaCheckWithPath.relation, label).toBe(viaCanWithPath.path?.at(-1)?.relation);
+            granted++;
+          }
+        }
+      }
+    }
+
+    // Guard against a vacuous pass on an empty graph
+    expect(granted).toBeGreaterThan(0);
+    const bookingA = { objectType: "booking", objectId: "booking-a" };
+    expect(await t.query(api.check.check, { ...bookingA, relation: "update", subjectType: "user", subjectId: "bob" }))
+      .toBe(true);
+    expect(await t.query(api.check.check, { ...bookingA, relation: "read", subjectType: "user", subjectId: "customer-c" }))
+      .toBe(false);
+  });
+});
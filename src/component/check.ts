@@ -1,11 +1,22 @@
 import { v } from "convex/values";
+import { paginationOptsValidator, paginationResultValidator } from "convex/server";
 import { query } from "./_generated/server.js";
+import { isExpired, queryTuples, tupleFilterValidator, tupleValidator } from "./tuples.js";
+import { evaluateCheck } from "./permissions.js";
 
 /**
  * Permission Check Queries
  *
- * These queries implement Zanzibar-style permission checks with
- * 1-hop graph traversal via `member_of` relations.
+ * `check` and `checkWithPath` answer "does subject have relation/permission
+ * on object?" with the same recursive evaluator and `permission_rules` as
+ * `permissions.can`, so both APIs always agree.
+ *
+ * Compatibility mode (`legacyHop: true`): the original hard-coded 1-hop
+ * traversal, which ignores rules and instead follows the subject's
+ * `member_of`, `admin_of`, `editor` and `viewer` tuples one hop to a group
+ * holding the relation directly. Kept for callers that relied on e.g.
+ * check(resource, "owner", user) being granted through org membership;
+ * prefer defining a rule ("owner->admin_of | owner->member_of") instead.
  *
  * The key insight: When any tuple is deleted, Convex automatically
  * invalidates all queries that read it. This solves the "New Enemy
@@ -15,17 +26,17 @@ import { query } from "./_generated/server.js";
 /**
  * Check if subject has relation to object
  *
- * Supports:
- * 1. Direct check: Does exact tuple exist?
- * 2. 1-hop traversal: Does subject belong to a group that has access?
+ * The relation is evaluated like a `can` action: its permission rule if
+ * one is defined, otherwise a direct relation (including usersets and
+ * public wildcards).
  *
  * Example:
- *   check("resource", "studio-a", "owner", "user", "daniel")
+ *   check("resource", "studio-a", "update", "user", "daniel")
  *
- *   Step 1: Direct check for (resource:studio-a, owner, user:daniel) → not found
- *   Step 2: Find daniel's memberships → [(org:acme, member_of, user:daniel)]
- *   Step 3: Check (resource:studio-a, owner, org:acme) → FOUND!
- *   Result: true (daniel can access via org membership)
+ *   Rule: resource.update = "owner->admin_of | owner->member_of"
+ *   Step 1: Follow owner → org:acme
+ *   Step 2: Check (org:acme, admin_of, user:daniel) → FOUND!
+ *   Result: true (daniel can update via org admin)
  */
 export const check = query({
   args: {
@@ -34,6 +45,7 @@ export const check = query({
     relation: v.string(),
     subjectType: v.string(),
     subjectId: v.string(),
+    legacyHop: v.optional(v.boolean()), // Compatibility mode: old 1-hop traversal
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -48,6 +60,9 @@ export const check = query({
  * This is the key for permission schemas: we need to know
  * not just IF access exists, but WHAT RELATION granted it.
  *
+ * `relation` is the relation the subject itself holds and `via` the
+ * object it holds it on, when that isn't the checked object.
+ *
  * Example return:
  *   {
  *     granted: true,
@@ -63,6 +78,7 @@ export const checkWithPath = query({
     relation: v.string(),
     subjectType: v.string(),
     subjectId: v.string(),
+    legacyHop: v.optional(v.boolean()),
   },
   returns: v.object({
     granted: v.boolean(),
@@ -80,6 +96,13 @@ export const checkWithPath = query({
   },
 });
 
+type CheckResult = {
+  granted: boolean;
+  direct: boolean;
+  relation?: string;
+  via?: { type: string; id: string };
+};
+
 // Internal helper to avoid code duplication
 async function checkWithPathInternal(
   ctx: any,
@@ -89,13 +112,53 @@ async function checkWithPathInternal(
     relation: string;
     subjectType: string;
     subjectId: string;
+    legacyHop?: boolean;
   }
-): Promise<{
-  granted: boolean;
-  direct: boolean;
-  relation?: string;
-  via?: { type: string; id: string };
-}> {
+): Promise<CheckResult> {
+  if (args.legacyHop) {
+    return await checkLegacyHop(ctx, args);
+  }
+
+  const result = await evaluateCheck(ctx, {
+    objectType: args.objectType,
+    objectId: args.objectId,
+    action: args.relation,
+    subjectType: args.subjectType,
+    subjectId: args.subjectId,
+  });
+
+  if (!result.allowed || !result.path) {
+    return { granted: false, direct: false };
+  }
+
+  // Path: [checked object, ...intermediate objects, subject]
+  const path = result.path;
+  if (path.length <= 2) {
+    return { granted: true, direct: true, relation: path[path.length - 1]?.relation ?? args.relation };
+  }
+
+  const holder = path[path.length - 2];
+  return {
+    granted: true,
+    direct: false,
+    relation: path[path.length - 1].relation,
+    via: { type: holder.nodeType, id: holder.nodeId },
+  };
+}
+
+/**
+ * Compatibility mode: the original hard-coded 1-hop traversal
+ */
+async function checkLegacyHop(
+  ctx: any,
+  args: {
+    objectType: string;
+    objectId: string;
+    relation: string;
+    subjectType: string;
+    subjectId: string;
+  }
+): Promise<CheckResult> {
   // Step 1: Direct check - does the exact tuple exist?
   const direct = await ctx.db
     .query("tuples")
@@ -106,10 +169,11 @@ async function checkWithPathInternal(
         .eq("relation", args.relation)
         .eq("subjectType", args.subjectType)
         .eq("subjectId", args.subjectId)
+        .eq("subjectRelation", undefined)
     )
     .first();
 
-  if (direct) {
+  if (direct && !isExpired(direct, Date.now())) {
     return {
       granted: true,
       direct: true,
@@ -128,10 +192,11 @@ async function checkWithPathInternal(
 
   const memberships = allRelations.filter(
     (t: any) =>
-      t.relation === "member_of" ||
+      !isExpired(t, Date.now()) &&
+      (t.relation === "member_of" ||
       t.relation === "admin_of" ||
       t.relation === "editor" ||
-      t.relation === "viewer"
+      t.relation === "viewer")
   );
 
   // Step 3: Check if any membership grants access
@@ -145,10 +210,11 @@ async function checkWithPathInternal(
           .eq("relation", args.relation)
           .eq("subjectType", membership.objectType)
           .eq("subjectId", membership.objectId)
+          .eq("subjectRelation", undefined)
       )
       .first();
 
-    if (indirect) {
+    if (indirect && !isExpired(indirect, Date.now())) {
       return {
         granted: true,
         direct: false,
@@ -174,6 +240,9 @@ async function checkWithPathInternal(
  *   listSubjects("resource", "studio-a", "owner")
  *   → [{ subjectType: "org", subjectId: "acme" }]
  *
+ *   listSubjects("resource", "studio-a", "viewer")
+ *   → [{ subjectType: "org", subjectId: "acme", subjectRelation: "member_of" }]
+ *
  * Note: This returns direct relations only, not expanded memberships.
  * Use this for admin UIs showing "who has access to this resource".
  */
@@ -187,6 +256,7 @@ export const listSubjects = query({
     v.object({
       subjectType: v.string(),
       subjectId: v.string(),
+      subjectRelation: v.optional(v.string()),
     })
   ),
   handler: async (ctx, args) => {
@@ -203,6 +273,7 @@ export const listSubjects = query({
     return tuples.map((t) => ({
       subjectType: t.subjectType,
       subjectId: t.subjectId,
+      subjectRelation: t.subjectRelation,
     }));
   },
 });
@@ -223,26 +294,32 @@ export const listRelations = query({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()), // Only tuples granting this userset
   },
   returns: v.array(
     v.object({
       objectType: v.string(),
       objectId: v.string(),
       relation: v.string(),
+      subjectRelation: v.optional(v.string()), // Set on tuples granting a userset of the subject
     })
   ),
   handler: async (ctx, args) => {
     const tuples = await ctx.db
       .query("tuples")
-      .withIndex("by_subject", (q) =>
-        q.eq("subjectType", args.subjectType).eq("subjectId", args.subjectId)
-      )
+      .withIndex("by_subject", (q) => {
+        const bySubject = q.eq("subjectType", args.subjectType).eq("subjectId", args.subjectId);
+        return args.subjectRelation === undefined
+          ? bySubject
+          : bySubject.eq("subjectRelation", args.subjectRelation);
+      })
       .collect();
 
     return tuples.map((t) => ({
       objectType: t.objectType,
       objectId: t.objectId,
       relation: t.relation,
+      subjectRelation: t.subjectRelation,
     }));
   },
 });
@@ -269,6 +346,8 @@ export const listTuplesForObject = query({
       relation: v.string(),
       subjectType: v.string(),
       subjectId: v.string(),
+      subjectRelation: v.optional(v.string()),
+      expiresAt: v.optional(v.number()),
     })
   ),
   handler: async (ctx, args) => {
@@ -283,6 +362,49 @@ export const listTuplesForObject = query({
       relation: t.relation,
       subjectType: t.subjectType,
       subjectId: t.subjectId,
+      subjectRelation: t.subjectRelation,
+      expiresAt: t.expiresAt,
     }));
   },
 });
+
+/**
+ * Page through tuples, optionally filtered by equality on their fields
+ *
+ * The filter must be a prefix of (objectType, objectId, relation,
+ * subjectType, subjectId, subjectRelation), or of (subjectType, subjectId,
+ * subjectRelation, relation); see `tupleFilterValidator`. Expired tuples
+ * are included.
+ *
+ * Example:
+ *   readTuples({ objectType: "org" }, { numItems: 100, cursor: null })
+ *   → { page: [{ objectType: "org", objectId: "acme", relation: "member_of", ... }],
+ *       isDone: false, continueCursor: "..." }
+ *
+ * Use this for admin UIs and exports that browse the whole graph.
+ */
+export const readTuples = query({
+  args: {
+    ...tupleFilterValidator.fields,
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(tupleValidator),
+  handler: async (ctx, { paginationOpts, ...filter }) => {
+    const result = await queryTuples(ctx, filter).paginate(paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((t) => ({
+        objectType: t.objectType,
+        objectId: t.objectId,
+        relation: t.relation,
+        subjectType: t.subjectType,
+        subjectId: t.subjectId,
+        subjectRelation: t.subjectRelation,
+        expiresAt: t.expiresAt,
+        caveatName: t.caveatName,
+        caveatContext: t.caveatContext,
+      })),
+    };
+  },
+});
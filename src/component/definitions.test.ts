@@ -0,0 +1,194 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api.js";
+import { flattenExpression, parsePermissionExpression } from "./dsl.js";
+import { initConvexTest } from "./setup.test.js";
+
+const SCHEMA = `
+/** A user of the system */
+definition user {}
+
+definition team {
+  relation member: user | team#member
+}
+
+/** An organization */
+definition org {
+  relation admin_of: user
+  relation member_of: user | team#member
+  relation banned: user
+
+  permission read = admin_of | member_of
+  permission manage = admin_of & member_of
+  permission visit = member_of - banned
+}
+
+definition resource {
+  /** The org that owns this resource */
+  relation owner: org
+  relation viewer: user | user:*
+
+  permission view = viewer | owner->read
+}
+`;
+
+describe("exportSchema", () => {
+  test("round-trips through applySchema", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.definitions.applySchema, { schema: SCHEMA });
+
+    const exported = await t.query(api.definitions.exportSchema, {});
+    expect(exported.warnings).toEqual([]);
+
+    // Reading the export back changes nothing and exports identically
+    expect(await t.mutation(api.definitions.applySchema, { schema: exported.schema })).toEqual([]);
+    expect(await t.query(api.definitions.exportSchema, {})).toEqual(exported);
+
+    // ...also into an empty deployment
+    const fresh = initConvexTest();
+    await fresh.mutation(api.definitions.applySchema, { schema: exported.schema });
+    expect(await fresh.query(api.definitions.exportSchema, {})).toEqual(exported);
+  });
+
+  test("leaves out and reports what applySchema would reject", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.definitions.applySchema, { schema: SCHEMA });
+    await t.run(async (ctx) => {
+      await ctx.db.insert("object_types", {
+        name: "folder",
+        relations: [{ name: "parent", targetTypes: [] }],
+      });
+      await ctx.db.insert("permission_rules", {
+        objectType: "ghost",
+        permission: "view",
+        expression: "viewer",
+        rules: flattenExpression(parsePermissionExpression("viewer")),
+      });
+    });
+
+    const exported = await t.query(api.definitions.exportSchema, {});
+    expect(exported.warnings).toEqual([
+      "folder.parent: relation has no subject types; left out of schema",
+      'ghost.view: object type "ghost" is not registered; left out of schema',
+    ]);
+    expect(exported.schema).toContain("definition folder {}");
+    expect(exported.schema).not.toContain("ghost");
+    expect(exported.model.permissionRules.map((r) => r.objectType)).toContain("ghost");
+
+    await t.mutation(api.definitions.applySchema, { schema: exported.schema });
+    const reapplied = await t.query(api.definitions.exportSchema, {});
+    expect(reapplied.warnings).toEqual([]);
+    expect(reapplied.schema).toEqual(exported.schema);
+  });
+});
+
+describe("diffSchema", () => {
+  const withOrgRules = (rules: string) =>
+    SCHEMA.replace(/ {2}permission manage = .*\n {2}permission visit = .*\n/, rules);
+
+  async function classify(before: string, after: string) {
+    const t = initConvexTest();
+    await t.mutation(api.definitions.applySchema, {
+      schema: withOrgRules(`  permission access = ${before}\n`),
+    });
+    for (const [relation, subjectId] of [
+      ["admin_of", "alice"],
+      ["member_of", "bob"],
+      ["member_of", "carol"],
+      ["banned", "mallory"],
+    ]) {
+      await t.mutation(api.tuples.write, {
+        objectType: "org",
+        objectId: "acme",
+        relation,
+        subjectType: "user",
+        subjectId,
+      });
+    }
+    const { changes } = await t.query(api.definitions.diffSchema, {
+      schema: withOrgRules(`  permission access = ${after}\n`),
+    });
+    expect(changes).toHaveLength(1);
+    return changes[0];
+  }
+
+  test("removing an intersection operand or exclusion widens access", async () => {
+    expect(await classify("admin_of & member_of", "admin_of")).toMatchObject({ breaking: false });
+    expect(await classify("member_of - banned", "member_of")).toMatchObject({ breaking: false });
+    expect(await classify("admin_of", "admin_of | member_of")).toMatchObject({ breaking: false });
+    expect(
+      await classify("member_of - (banned | admin_of)", "member_of - banned")
+    ).toMatchObject({ breaking: false });
+  });
+
+  test("dropping a branch or adding an operand narrows access", async () => {
+    expect(await classify("admin_of | member_of", "admin_of")).toMatchObject({
+      breaking: true,
+      reason: "permission narrowed: may no longer grant through member_of",
+      affectedTuples: 2,
+    });
+    expect(await classify("member_of", "member_of & admin_of")).toMatchObject({
+      breaking: true,
+      affectedTuples: 2,
+    });
+    expect(await classify("member_of", "member_of - banned")).toMatchObject({ breaking: true });
+    expect(await classify("member_of - banned", "member_of - (banned | admin_of)")).toMatchObject({
+      breaking: true,
+    });
+  });
+
+  test("counts tuples of removed subject types", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.definitions.applySchema, { schema: SCHEMA });
+    for (const subject of [
+      { subjectType: "user", subjectId: "bob" },
+      { subjectType: "team", subjectId: "eng", subjectRelation: "member" },
+      { subjectType: "team", subjectId: "ops", subjectRelation: "member" },
+    ]) {
+      await t.mutation(api.tuples.write, {
+        objectType: "org",
+        objectId: "acme",
+        relation: "member_of",
+        ...subject,
+      });
+    }
+
+    const { breaking, changes } = await t.query(api.definitions.diffSchema, {
+      schema: SCHEMA.replace("relation member_of: user | team#member", "relation member_of: user"),
+    });
+    expect(breaking).toBe(true);
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: "relation",
+        name: "member_of",
+        breaking: true,
+        affectedTuples: 2,
+      }),
+    ]);
+  });
+
+  test("flags counts that hit the cap", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.definitions.applySchema, { schema: SCHEMA });
+    await t.run(async (ctx) => {
+      for (let i = 0; i <= 1000; i++) {
+        await ctx.db.insert("tuples", {
+          objectType: "org",
+          objectId: "acme",
+          relation: "banned",
+          subjectType: "user",
+          subjectId: `user-${i}`,
+        });
+      }
+    });
+
+    const { changes } = await t.query(api.definitions.diffSchema, {
+      schema: SCHEMA.replace("  relation banned: user\n", ""),
+    });
+    expect(changes.find((c) => c.kind === "relation")).toMatchObject({
+      name: "banned",
+      breaking: true,
+      affectedTuples: 1000,
+      affectedTuplesTruncated: true,
+    });
+  });
+});
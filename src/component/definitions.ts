@@ -0,0 +1,870 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query, type QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import {
+  flattenExpression,
+  parsePermissionExpression,
+  rulesToExpression,
+  type ExpressionNode,
+} from "./dsl.js";
+import { relationTargets } from "./objectTypes.js";
+import { WILDCARD_SUBJECT_ID } from "./tuples.js";
+import { validateRule, type RuleValidationError } from "./rules.js";
+import { pendingClearCutoff, updateRow } from "./jobs.js";
+import {
+  formatRelationTargets,
+  formatSchema,
+  lineAndColumn,
+  parseSchema,
+  SchemaParseError,
+  type SchemaDefinition,
+} from "./schemaDsl.js";
+
+/**
+ * Schema Definitions
+ *
+ * Manage object types and permission rules together as one schema written
+ * in the schema language (see schemaDsl.ts), instead of many
+ * `registerObjectType` / `definePermission` calls.
+ */
+
+/**
+ * One difference between the stored schema and a schema text
+ *
+ * `name` is the relation or permission name (absent for object types).
+ * `before` / `after` hold relation subject types ("user | team#member"),
+ * permission expressions, or object type descriptions.
+ */
+export const schemaChangeValidator = v.object({
+  action: v.union(v.literal("create"), v.literal("update"), v.literal("delete")),
+  kind: v.union(v.literal("objectType"), v.literal("relation"), v.literal("permission")),
+  objectType: v.string(),
+  name: v.optional(v.string()),
+  before: v.optional(v.string()),
+  after: v.optional(v.string()),
+});
+
+export type SchemaChange = {
+  action: "create" | "update" | "delete";
+  kind: "objectType" | "relation" | "permission";
+  objectType: string;
+  name?: string;
+  before?: string;
+  after?: string;
+};
+
+/**
+ * Apply a schema: create, update and delete object types, relations and
+ * permission rules so the stored schema matches the text exactly
+ *
+ * Runs in one transaction: if the schema doesn't parse, references
+ * undefined types, or has rules that fail validation (see
+ * `rules.definePermission`), nothing is changed and a ConvexError with data
+ * `{ code: "InvalidSchema", errors }` is thrown (errors carry source spans).
+ *
+ * Tuples are not touched, even for deleted relations.
+ *
+ * @returns The changes that were applied (empty if already up to date)
+ *
+ * @example
+ * applySchema(`
+ *   definition user {}
+ *
+ *   definition org {
+ *     relation admin_of: user
+ *     relation member_of: user
+ *     permission read = admin_of | member_of
+ *   }
+ * `)
+ * // [{ action: "create", kind: "objectType", objectType: "org" }, ...]
+ */
+export const applySchema = mutation({
+  args: { schema: v.string() },
+  returns: v.array(schemaChangeValidator),
+  handler: async (ctx, { schema }) => {
+    const definitions = parseSchemaOrThrow(schema);
+    throwIfInvalid(schema, checkReferences(definitions));
+
+    const current = await loadStoredSchema(ctx);
+    const changes = diffStoredSchema(current, definitions);
+    // Unchanged rows still need re-writing if a running clear job would delete them
+    const clearing =
+      (await pendingClearCutoff(ctx, "object_types")) !== undefined ||
+      (await pendingClearCutoff(ctx, "permission_rules")) !== undefined;
+    if (changes.length === 0 && !clearing) return [];
+
+    // Object types
+    for (const definition of definitions) {
+      const existing = current.types.get(definition.name);
+      const fields = {
+        description: definition.description,
+        relations: definition.relations.map((r) => ({
+          name: r.name,
+          targetTypes: r.targetTypes,
+          description: r.description,
+          allowWildcard: r.allowWildcard,
+        })),
+      };
+
+      if (!existing) {
+        await ctx.db.insert("object_types", { name: definition.name, ...fields });
+      } else {
+        await updateRow(ctx, "object_types", existing, objectTypeKey(existing) !== objectTypeKey(fields) ? fields : {});
+      }
+    }
+    const defined = new Set(definitions.map((d) => d.name));
+    for (const type of current.types.values()) {
+      if (!defined.has(type.name)) await ctx.db.delete(type._id);
+    }
+
+    // Permission rules
+    const wanted = new Set(
+      definitions.flatMap((d) => d.permissions.map((p) => `${d.name}.${p.name}`))
+    );
+    for (const definition of definitions) {
+      for (const permission of definition.permissions) {
+        const existing = current.rules.get(`${definition.name}.${permission.name}`);
+        const fields = {
+          expression: permission.expression,
+          rules: flattenExpression(parsePermissionExpression(permission.expression)),
+        };
+
+        if (!existing) {
+          await ctx.db.insert("permission_rules", {
+            objectType: definition.name,
+            permission: permission.name,
+            ...fields,
+          });
+        } else {
+          const changed = existing.expression !== permission.expression || Array.isArray(existing.rules);
+          await updateRow(ctx, "permission_rules", existing, changed ? fields : {});
+        }
+      }
+    }
+    for (const [key, rule] of current.rules) {
+      if (!wanted.has(key)) await ctx.db.delete(rule._id);
+    }
+
+    // Validate rules against the new object types (throwing rolls back)
+    const errors: RuleValidationError[] = [];
+    for (const definition of definitions) {
+      for (const permission of definition.permissions) {
+        const result = await validateRule(ctx, definition.name, permission.name, permission.expression);
+        for (const error of result.errors) {
+          errors.push({
+            message: `${definition.name}.${permission.name}: ${error.message}`,
+            start: permission.start + error.start,
+            end: permission.start + error.end,
+          });
+        }
+      }
+    }
+    throwIfInvalid(schema, errors);
+
+    return changes;
+  },
+});
+
+const exportedTargetTypeValidator = v.object({
+  type: v.string(),
+  relation: v.optional(v.string()),
+});
+
+/**
+ * The full authorization model as a JSON document (see `exportSchema`)
+ */
+export const authorizationModelValidator = v.object({
+  objectTypes: v.array(
+    v.object({
+      name: v.string(),
+      description: v.optional(v.string()),
+      relations: v.array(
+        v.object({
+          name: v.string(),
+          targetTypes: v.array(exportedTargetTypeValidator),
+          description: v.optional(v.string()),
+          allowWildcard: v.optional(v.boolean()),
+        })
+      ),
+    })
+  ),
+  permissionRules: v.array(
+    v.object({
+      objectType: v.string(),
+      permission: v.string(),
+      expression: v.string(),
+    })
+  ),
+  permissionCatalog: v.array(
+    v.object({
+      name: v.string(),
+      label: v.string(),
+      description: v.optional(v.string()),
+      category: v.string(),
+      isActive: v.boolean(),
+    })
+  ),
+  relationCatalog: v.array(
+    v.object({
+      name: v.string(),
+      label: v.string(),
+      description: v.optional(v.string()),
+      isActive: v.boolean(),
+    })
+  ),
+});
+
+/**
+ * Export the full authorization model, e.g. to check it into git
+ *
+ * Returns the same model twice:
+ * - `schema`: object types, relations and permission rules as schema text,
+ *   which `applySchema` reads back
+ * - `model`: a JSON document that also includes the permission and relation
+ *   catalogs (which the schema language doesn't describe)
+ *
+ * Everything is sorted by name (rules by object type, then permission) and
+ * database ids are left out, so exports of equal models are identical and
+ * can be diffed across deployments.
+ *
+ * Parts of the model that `applySchema` would reject are left out of
+ * `schema` (but kept in `model`) and listed in `warnings`: relations
+ * without subject types, rules for unregistered object types, and rules
+ * that no longer validate. Applying such a `schema` deletes them.
+ *
+ * @example
+ * const { schema } = await exportSchema();
+ * // "definition org {\n  relation admin_of: user\n ..."
+ */
+export const exportSchema = query({
+  args: {},
+  returns: v.object({
+    schema: v.string(),
+    model: authorizationModelValidator,
+    warnings: v.array(v.string()),
+  }),
+  handler: async (ctx) => {
+    const current = await loadStoredSchema(ctx);
+    const permissionCatalog = await ctx.db.query("permission_catalog").collect();
+    const relationCatalog = await ctx.db.query("relation_catalog").collect();
+
+    const byName = <T extends { name: string }>(a: T, b: T) => compare(a.name, b.name);
+
+    const objectTypes = [...current.types.values()]
+      .map((type) => ({
+        name: type.name,
+        description: type.description,
+        relations: type.relations
+          .map((relation) => ({
+            name: relation.name,
+            targetTypes: relationTargets(relation)
+              .map((t) => ({ type: t.type, relation: t.relation }))
+              .sort((a, b) => compare(`${a.type}#${a.relation ?? ""}`, `${b.type}#${b.relation ?? ""}`)),
+            description: relation.description,
+            allowWildcard: relation.allowWildcard || undefined,
+          }))
+          .sort(byName),
+      }))
+      .sort(byName);
+
+    const permissionRules = [...current.rules.values()]
+      .map((rule) => ({
+        objectType: rule.objectType,
+        permission: rule.permission,
+        expression: rule.expression,
+      }))
+      .sort((a, b) => compare(a.objectType, b.objectType) || compare(a.permission, b.permission));
+
+    // Leave out what applySchema would reject, so the text reads back
+    const warnings: string[] = [];
+    const exported = new Map(
+      objectTypes.map((type) => [
+        type.name,
+        {
+          name: type.name,
+          description: type.description,
+          relations: type.relations.filter((relation) => {
+            if (relation.targetTypes.length > 0) return true;
+            warnings.push(`${type.name}.${relation.name}: relation has no subject types; left out of schema`);
+            return false;
+          }),
+          permissions: [] as { name: string; expression: string }[],
+        },
+      ])
+    );
+    for (const rule of permissionRules) {
+      const where = `${rule.objectType}.${rule.permission}`;
+      const definition = exported.get(rule.objectType);
+      if (!definition) {
+        warnings.push(`${where}: object type "${rule.objectType}" is not registered; left out of schema`);
+        continue;
+      }
+      const { errors } = await validateRule(ctx, rule.objectType, rule.permission, rule.expression);
+      if (errors.length > 0) {
+        warnings.push(`${where}: ${errors.map((e) => e.message).join("; ")}; left out of schema`);
+        continue;
+      }
+      definition.permissions.push({ name: rule.permission, expression: rule.expression });
+    }
+    const schema = formatSchema([...exported.values()]);
+    try {
+      for (const error of checkReferences(parseSchema(schema))) {
+        warnings.push(error.message);
+      }
+    } catch (error) {
+      if (!(error instanceof SchemaParseError)) throw error;
+      warnings.push(error.message);
+    }
+
+    return {
+      schema,
+      model: {
+        objectTypes,
+        permissionRules,
+        permissionCatalog: permissionCatalog
+          .map((p) => ({
+            name: p.name,
+            label: p.label,
+            description: p.description,
+            category: p.category,
+            isActive: p.isActive,
+          }))
+          .sort(byName),
+        relationCatalog: relationCatalog
+          .map((r) => ({
+            name: r.name,
+            label: r.label,
+            description: r.description,
+            isActive: r.isActive,
+          }))
+          .sort(byName),
+      },
+      warnings,
+    };
+  },
+});
+
+/**
+ * A schema change with its impact on existing tuples and checks
+ */
+export const classifiedSchemaChangeValidator = v.object({
+  ...schemaChangeValidator.fields,
+  breaking: v.boolean(),
+  reason: v.optional(v.string()), // Why the change is breaking
+  affectedTuples: v.number(),
+  // The count hit the per-relation cap: at least `affectedTuples` are affected
+  affectedTuplesTruncated: v.boolean(),
+});
+
+export type ClassifiedSchemaChange = SchemaChange & {
+  breaking: boolean;
+  reason?: string;
+  affectedTuples: number;
+  affectedTuplesTruncated: boolean;
+};
+
+/**
+ * Compare a proposed schema to the stored one without changing anything
+ *
+ * Returns the changes `applySchema` would make, each classified as breaking
+ * or not:
+ * - deleting an object type that still has permission rules or tuples
+ * - deleting a relation that tuples still use
+ * - narrowing a relation's subject types while tuples use the removed ones
+ * - deleting a permission, or narrowing it: any change after which the new
+ *   expression can't be shown to grant everything the old one did (dropping
+ *   a `|` branch, adding a `&` operand or an exclusion). Removing `&`
+ *   operands or exclusions widens access and isn't breaking.
+ *
+ * `affectedTuples` counts the tuples on the object type that the change
+ * touches: tuples of the removed relation, tuples with subjects no longer
+ * allowed, or tuples of the relations the narrowed branches read. Counts are
+ * read through indexes and capped at 1000 per relation, so diffs stay within
+ * transaction limits on large graphs; `affectedTuplesTruncated` is set when
+ * a cap was hit and `affectedTuples` is only a lower bound. Creates and
+ * description changes are never breaking.
+ *
+ * Invalid schema text throws like `applySchema`. Rule expressions are only
+ * checked for syntax; references are validated when the schema is applied.
+ *
+ * @example
+ * const { breaking, changes } = await diffSchema(proposed);
+ * // breaking: true
+ * // changes: [{ action: "update", kind: "permission", objectType: "resource", name: "read",
+ * //   before: "owner->admin_of | owner->member_of", after: "owner->admin_of",
+ * //   breaking: true, reason: "permission narrowed: may no longer grant through owner->member_of",
+ * //   affectedTuples: 4, affectedTuplesTruncated: false }]
+ */
+export const diffSchema = query({
+  args: { schema: v.string() },
+  returns: v.object({
+    breaking: v.boolean(),
+    changes: v.array(classifiedSchemaChangeValidator),
+  }),
+  handler: async (ctx, { schema }) => {
+    const definitions = parseSchemaOrThrow(schema);
+    throwIfInvalid(schema, checkReferences(definitions));
+
+    const current = await loadStoredSchema(ctx);
+    const changes = diffStoredSchema(current, definitions);
+
+    const classified: ClassifiedSchemaChange[] = [];
+    for (const change of changes) {
+      classified.push({ ...change, ...(await classifyChange(ctx, change, current, definitions)) });
+    }
+
+    return { breaking: classified.some((c) => c.breaking), changes: classified };
+  },
+});
+
+/**
+ * Locale-independent string order, so exports don't depend on the runtime
+ */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Stored object types and rules, keyed by name and "type.permission"
+ */
+export type StoredSchema = {
+  types: Map<string, Doc<"object_types">>;
+  rules: Map<string, Doc<"permission_rules">>;
+};
+
+export async function loadStoredSchema(ctx: QueryCtx): Promise<StoredSchema> {
+  const types = await ctx.db.query("object_types").collect();
+  const rules = await ctx.db.query("permission_rules").collect();
+
+  return {
+    types: new Map(types.map((t) => [t.name, t])),
+    rules: new Map(rules.map((r) => [`${r.objectType}.${r.permission}`, r])),
+  };
+}
+
+/**
+ * Parse schema text, turning syntax errors into a ConvexError
+ */
+export function parseSchemaOrThrow(schema: string): SchemaDefinition[] {
+  try {
+    return parseSchema(schema);
+  } catch (error) {
+    if (error instanceof SchemaParseError) {
+      throw new ConvexError({
+        code: "InvalidSchema",
+        message: `Invalid schema: ${error.message}`,
+        errors: [{ message: error.message, start: error.start, end: error.end }],
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check that relations only allow types (and userset relations) the
+ * schema defines
+ */
+export function checkReferences(definitions: SchemaDefinition[]): RuleValidationError[] {
+  const byName = new Map(definitions.map((d) => [d.name, d]));
+  const errors: RuleValidationError[] = [];
+
+  for (const definition of definitions) {
+    for (const relation of definition.relations) {
+      for (const target of relation.targetTypes) {
+        const targetDefinition = byName.get(target.type);
+        const where = `${definition.name}.${relation.name}`;
+
+        if (!targetDefinition) {
+          errors.push({
+            message: `${where}: type "${target.type}" is not defined`,
+            start: relation.start,
+            end: relation.end,
+          });
+        } else if (
+          target.relation !== undefined &&
+          ![...targetDefinition.relations, ...targetDefinition.permissions].some(
+            (m) => m.name === target.relation
+          )
+        ) {
+          errors.push({
+            message: `${where}: "${target.relation}" is not a relation or permission on "${target.type}"`,
+            start: relation.start,
+            end: relation.end,
+          });
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+function throwIfInvalid(schema: string, errors: RuleValidationError[]) {
+  if (errors.length === 0) return;
+
+  const located = errors.map((error) => {
+    const { line, column } = lineAndColumn(schema, error.start);
+    return { ...error, message: `${error.message} (line ${line}, column ${column})` };
+  });
+  throw new ConvexError({
+    code: "InvalidSchema",
+    message: `Invalid schema: ${located.map((e) => e.message).join("; ")}`,
+    errors: located,
+  });
+}
+
+/**
+ * Compute the changes that turn the stored schema into `definitions`
+ */
+export function diffStoredSchema(current: StoredSchema, definitions: SchemaDefinition[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const defined = new Set(definitions.map((d) => d.name));
+
+  const storedPermissions = (typeName: string) =>
+    [...current.rules.values()].filter((r) => r.objectType === typeName);
+
+  for (const definition of definitions) {
+    const existing = current.types.get(definition.name);
+    const objectType = definition.name;
+
+    if (!existing) {
+      changes.push({ action: "create", kind: "objectType", objectType });
+    } else if ((existing.description ?? "") !== (definition.description ?? "")) {
+      changes.push({
+        action: "update",
+        kind: "objectType",
+        objectType,
+        before: existing.description,
+        after: definition.description,
+      });
+    }
+
+    // Relations
+    const storedRelations = new Map(
+      (existing?.relations ?? []).map((r) => [r.name, { ...r, targetTypes: relationTargets(r) }])
+    );
+    for (const relation of definition.relations) {
+      const stored = storedRelations.get(relation.name);
+      if (!stored) {
+        changes.push({
+          action: "create",
+          kind: "relation",
+          objectType,
+          name: relation.name,
+          after: formatRelationTargets(relation),
+        });
+      } else if (relationKey(stored) !== relationKey(relation)) {
+        changes.push({
+          action: "update",
+          kind: "relation",
+          objectType,
+          name: relation.name,
+          before: formatRelationTargets(stored),
+          after: formatRelationTargets(relation),
+        });
+      }
+    }
+    for (const stored of storedRelations.values()) {
+      if (!definition.relations.some((r) => r.name === stored.name)) {
+        changes.push({
+          action: "delete",
+          kind: "relation",
+          objectType,
+          name: stored.name,
+          before: formatRelationTargets(stored),
+        });
+      }
+    }
+
+    // Permissions
+    for (const permission of definition.permissions) {
+      const stored = current.rules.get(`${objectType}.${permission.name}`);
+      if (!stored) {
+        changes.push({
+          action: "create",
+          kind: "permission",
+          objectType,
+          name: permission.name,
+          after: permission.expression,
+        });
+      } else if (stored.expression !== permission.expression) {
+        changes.push({
+          action: "update",
+          kind: "permission",
+          objectType,
+          name: permission.name,
+          before: stored.expression,
+          after: permission.expression,
+        });
+      }
+    }
+    for (const stored of storedPermissions(objectType)) {
+      if (!definition.permissions.some((p) => p.name === stored.permission)) {
+        changes.push({
+          action: "delete",
+          kind: "permission",
+          objectType,
+          name: stored.permission,
+          before: stored.expression,
+        });
+      }
+    }
+  }
+
+  // Object types (and rules) missing from the schema
+  const removedTypes = new Set(
+    [...current.types.keys(), ...[...current.rules.values()].map((r) => r.objectType)].filter(
+      (name) => !defined.has(name)
+    )
+  );
+  for (const objectType of removedTypes) {
+    const existing = current.types.get(objectType);
+    if (existing) {
+      changes.push({ action: "delete", kind: "objectType", objectType, before: existing.description });
+      for (const relation of existing.relations) {
+        changes.push({
+          action: "delete",
+          kind: "relation",
+          objectType,
+          name: relation.name,
+          before: formatRelationTargets({ ...relation, targetTypes: relationTargets(relation) }),
+        });
+      }
+    }
+    for (const stored of storedPermissions(objectType)) {
+      changes.push({
+        action: "delete",
+        kind: "permission",
+        objectType,
+        name: stored.permission,
+        before: stored.expression,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Comparable form of a relation (subject type order doesn't matter)
+ */
+function relationKey(relation: {
+  targetTypes: Array<{ type: string; relation?: string }>;
+  allowWildcard?: boolean;
+  description?: string;
+}): string {
+  return JSON.stringify([
+    relation.targetTypes.map((t) => `${t.type}#${t.relation ?? ""}`).sort(),
+    relation.allowWildcard ?? false,
+    relation.description ?? "",
+  ]);
+}
+
+function objectTypeKey(type: {
+  description?: string;
+  relations: Doc<"object_types">["relations"];
+}): string {
+  return JSON.stringify([
+    type.description ?? "",
+    type.relations
+      .map((r) => [r.name, relationKey({ ...r, targetTypes: relationTargets(r) })])
+      .sort(),
+    // Legacy rows need rewriting even if otherwise equal
+    type.relations.some((r) => r.targetTypes === undefined),
+  ]);
+}
+
+/**
+ * Upper bound for each tuple count in `diffSchema`
+ */
+const AFFECTED_TUPLES_LIMIT = 1000;
+
+/**
+ * A tuple count, `truncated` if it stopped at `AFFECTED_TUPLES_LIMIT`
+ */
+type TupleCount = { count: number; truncated: boolean };
+
+const NO_TUPLES: TupleCount = { count: 0, truncated: false };
+
+function addCounts(a: TupleCount, b: TupleCount): TupleCount {
+  return { count: a.count + b.count, truncated: a.truncated || b.truncated };
+}
+
+/**
+ * Count the tuples of an object type, optionally of one relation and
+ * subject type, up to `AFFECTED_TUPLES_LIMIT`
+ */
+async function countTuples(
+  ctx: QueryCtx,
+  objectType: string,
+  relation?: string,
+  subject?: { type: string; relation?: string; id?: string }
+): Promise<TupleCount> {
+  const tuples = await ctx.db
+    .query("tuples")
+    .withIndex("by_type_relation", (q) => {
+      const byType = q.eq("objectType", objectType);
+      if (relation === undefined) return byType;
+      const byRelation = byType.eq("relation", relation);
+      if (subject === undefined) return byRelation;
+      const bySubject = byRelation.eq("subjectType", subject.type).eq("subjectRelation", subject.relation);
+      return subject.id === undefined ? bySubject : bySubject.eq("subjectId", subject.id);
+    })
+    .take(AFFECTED_TUPLES_LIMIT + 1);
+  return {
+    count: Math.min(tuples.length, AFFECTED_TUPLES_LIMIT),
+    truncated: tuples.length > AFFECTED_TUPLES_LIMIT,
+  };
+}
+
+/**
+ * Decide whether a change breaks existing access, and how many tuples it affects
+ */
+async function classifyChange(
+  ctx: QueryCtx,
+  change: SchemaChange,
+  current: StoredSchema,
+  definitions: SchemaDefinition[]
+): Promise<{ breaking: boolean; reason?: string; affectedTuples: number; affectedTuplesTruncated: boolean }> {
+  const safe = { breaking: false, affectedTuples: 0, affectedTuplesTruncated: false };
+  const affected = (tuples: TupleCount) => ({
+    affectedTuples: tuples.count,
+    affectedTuplesTruncated: tuples.truncated,
+  });
+  if (change.action === "create") return safe;
+
+  switch (change.kind) {
+    case "objectType": {
+      // Updates only change the description
+      if (change.action === "update") return safe;
+
+      const tuples = await countTuples(ctx, change.objectType);
+      const rules = [...current.rules.values()].filter((r) => r.objectType === change.objectType);
+      if (rules.length > 0) {
+        return {
+          breaking: true,
+          reason: `type deleted with live rules (${rules.map((r) => r.permission).join(", ")})`,
+          ...affected(tuples),
+        };
+      }
+      if (tuples.count > 0) {
+        return { breaking: true, reason: "type deleted while tuples still use it", ...affected(tuples) };
+      }
+      return safe;
+    }
+
+    case "relation": {
+      if (change.action === "delete") {
+        const tuples = await countTuples(ctx, change.objectType, change.name);
+        if (tuples.count === 0) return safe;
+        return {
+          breaking: true,
+          reason: "relation removed while tuples still use it",
+          ...affected(tuples),
+        };
+      }
+
+      // Count tuples of the subject types (and wildcards) no longer allowed
+      const stored = current.types.get(change.objectType)!.relations.find((r) => r.name === change.name)!;
+      const relation = definitions
+        .find((d) => d.name === change.objectType)!
+        .relations.find((r) => r.name === change.name)!;
+      const allowed = (target: { type: string; relation?: string }) =>
+        relation.targetTypes.some((t) => t.type === target.type && t.relation === target.relation);
+
+      let disallowed = NO_TUPLES;
+      for (const target of relationTargets(stored)) {
+        if (!allowed(target)) {
+          disallowed = addCounts(disallowed, await countTuples(ctx, change.objectType, change.name, target));
+        } else if (target.relation === undefined && stored.allowWildcard && !relation.allowWildcard) {
+          disallowed = addCounts(
+            disallowed,
+            await countTuples(ctx, change.objectType, change.name, { type: target.type, id: WILDCARD_SUBJECT_ID })
+          );
+        }
+      }
+      if (disallowed.count === 0) return safe;
+      return {
+        breaking: true,
+        reason: "subject types narrowed while tuples still use the removed ones",
+        ...affected(disallowed),
+      };
+    }
+
+    case "permission": {
+      const before = parsePermissionExpression(change.before!);
+      const after = change.action === "update" ? parsePermissionExpression(change.after!) : undefined;
+      const narrowed = unionBranches(before).filter((branch) => !after || !covers(after, branch));
+      if (narrowed.length === 0) return safe;
+
+      let read = NO_TUPLES;
+      for (const relation of new Set(narrowed.flatMap(relationsRead))) {
+        read = addCounts(read, await countTuples(ctx, change.objectType, relation));
+      }
+      return {
+        breaking: true,
+        reason:
+          change.action === "delete"
+            ? "permission removed"
+            : `permission narrowed: may no longer grant through ${narrowed.map(rulesToExpression).join(", ")}`,
+        ...affected(read),
+      };
+    }
+  }
+}
+
+/**
+ * The top-level `|` branches of an expression (or the expression itself)
+ */
+function unionBranches(node: ExpressionNode): ExpressionNode[] {
+  return node.type === "union" ? node.children : [node];
+}
+
+/**
+ * Whether `wider` grants at least everyone `narrower` grants, for any tuples
+ *
+ * Conservative: `false` means "not shown", so changes it can't prove safe
+ * count as narrowing. Relations and hops are compared by name.
+ */
+function covers(wider: ExpressionNode, narrower: ExpressionNode): boolean {
+  if (rulesToExpression(wider) === rulesToExpression(narrower)) return true;
+
+  // Split the narrower side: every branch of a union must be covered, one
+  // operand of an intersection suffices, and an exclusion is within its base
+  if (narrower.type === "union" && narrower.children.every((c) => covers(wider, c))) return true;
+  if (narrower.type === "intersection" && narrower.children.some((c) => covers(wider, c))) return true;
+  if (narrower.type === "exclusion" && covers(wider, narrower.base)) return true;
+
+  switch (wider.type) {
+    case "union":
+      return wider.children.some((c) => covers(c, narrower));
+    case "intersection":
+      return wider.children.every((c) => covers(c, narrower));
+    case "exclusion":
+      // a - x covers b - y when a covers b and y covers x (x revokes no more)
+      return (
+        narrower.type === "exclusion" &&
+        covers(wider.base, narrower.base) &&
+        covers(narrower.excluded, wider.excluded)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Relations on the rule's own object type that an expression reads
+ */
+function relationsRead(node: ExpressionNode): string[] {
+  switch (node.type) {
+    case "direct":
+      return [node.relation];
+    case "computed":
+      return [node.sourceRelation];
+    case "union":
+    case "intersection":
+      return node.children.flatMap(relationsRead);
+    case "exclusion":
+      return [...relationsRead(node.base), ...relationsRead(node.excluded)];
+  }
+}
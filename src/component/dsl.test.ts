@@ -0,0 +1,207 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api.js";
+import {
+  PermissionExpressionError,
+  flattenExpression,
+  inflateExpression,
+  parsePermissionExpression,
+  rulesToExpression,
+  type ExpressionNode,
+} from "./dsl.js";
+import { initConvexTest } from "./setup.test.js";
+
+/**
+ * Compact notation for a parsed tree, ignoring source spans:
+ * "a", "a->b", "(a | b)", "(a & b)", "(a - b)"
+ */
+function shape(node: ExpressionNode): string {
+  switch (node.type) {
+    case "direct":
+      return node.relation;
+    case "computed":
+      return `${node.sourceRelation}->${node.targetPermission}`;
+    case "union":
+      return `(${node.children.map(shape).join(" | ")})`;
+    case "intersection":
+      return `(${node.children.map(shape).join(" & ")})`;
+    case "exclusion":
+      return `(${shape(node.base)} - ${shape(node.excluded)})`;
+  }
+}
+
+function parseError(expression: string): PermissionExpressionError {
+  try {
+    parsePermissionExpression(expression);
+  } catch (error) {
+    if (error instanceof PermissionExpressionError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${expression}" not to parse`);
+}
+
+describe("parsePermissionExpression", () => {
+  test("parses direct and computed parts with their spans", () => {
+    expect(parsePermissionExpression("booker")).toEqual({
+      type: "direct",
+      relation: "booker",
+      start: 0,
+      end: 6,
+    });
+    expect(parsePermissionExpression("parent->edit | booker")).toEqual({
+      type: "union",
+      start: 0,
+      end: 21,
+      children: [
+        { type: "computed", sourceRelation: "parent", targetPermission: "edit", start: 0, end: 12 },
+        { type: "direct", relation: "booker", start: 15, end: 21 },
+      ],
+    });
+  });
+
+  test.each([
+    ["a | b & c", "(a | (b & c))"],
+    ["a & b | c", "((a & b) | c)"],
+    ["a | b - c", "((a | b) - c)"],
+    ["a - b | c", "(a - (b | c))"],
+    ["a & b - c", "((a & b) - c)"],
+    ["a - b - c", "((a - b) - c)"],
+    ["a | b but not c", "((a | b) - c)"],
+    ["a but not b - c", "((a - b) - c)"],
+    ["a | b | c", "(a | b | c)"],
+  ])("applies precedence to %s", (expression, expected) => {
+    expect(shape(parsePermissionExpression(expression))).toBe(expected);
+  });
+
+  test.each([
+    ["(a | b) & c", "((a | b) & c)"],
+    ["a - (b - c)", "(a - (b - c))"],
+    ["(a - b) | c", "((a - b) | c)"],
+    ["((owner->admin_of | booker)) & parent->view", "((owner->admin_of | booker) & parent->view)"],
+    ["a & (b | (c - d))", "(a & (b | (c - d)))"],
+  ])("groups parenthesised %s", (expression, expected) => {
+    expect(shape(parsePermissionExpression(expression))).toBe(expected);
+  });
+
+  test("widens a parenthesised span to its parentheses", () => {
+    const node = parsePermissionExpression("x & (a | b)");
+    expect(node.type).toBe("intersection");
+    if (node.type !== "intersection") return;
+    expect(node.children[1]).toMatchObject({ type: "union", start: 4, end: 11 });
+    expect(node).toMatchObject({ start: 0, end: 11 });
+  });
+
+  test("treats but and not as relation names outside the operator", () => {
+    expect(shape(parsePermissionExpression("but | not"))).toBe("(but | not)");
+  });
+
+  test.each([
+    ["", 0, 0, /cannot be empty/],
+    ["   ", 0, 0, /cannot be empty/],
+    ["owner.admin", 5, 6, /Unexpected character "\."/],
+    ["a |", 3, 3, /Expected relation name, found end of expression/],
+    ["a | | b", 4, 5, /Expected relation name, found "\|"/],
+    ["owner->", 7, 7, /Expected permission name after "->"/],
+    ["a->b->c", 4, 6, /only one "->" hop/],
+    ["(a | b", 6, 6, /Expected "\)" to close "\(" at position 0/],
+    ["a b", 2, 3, /Unexpected "b"/],
+    ["a | b)", 5, 6, /Unexpected "\)"/],
+    ["a but b", 2, 5, /Unexpected "but"/],
+  ])("reports the position of the error in %j", (expression, start, end, message) => {
+    const error = parseError(expression);
+    expect(error.message).toMatch(message);
+    expect([error.start, error.end]).toEqual([start, end]);
+  });
+});
+
+describe("rulesToExpression", () => {
+  test.each([
+    ["booker", "booker"],
+    ["parent->edit | booker", "parent->edit | booker"],
+    ["(a | b) & c", "(a | b) & c"],
+    ["a | b & c", "a | b & c"],
+    ["((a))", "a"],
+    ["a but not b", "a - b"],
+    ["a - b - c", "a - b - c"],
+    ["a - (b - c)", "a - (b - c)"],
+    ["(a - b) | c", "(a - b) | c"],
+    ["a - (b | c)", "a - b | c"],
+    ["(a & b) - c", "a & b - c"],
+  ])("prints %s as %s", (expression, expected) => {
+    expect(rulesToExpression(parsePermissionExpression(expression))).toBe(expected);
+  });
+
+  test.each([
+    "a | b & c - d",
+    "(a | b) & (c | d->e)",
+    "a - (b - (c | d))",
+    "((a - b) | c) & d",
+    "x->y & (z - w) | v",
+  ])("round-trips %s to an equivalent tree", (expression) => {
+    const tree = parsePermissionExpression(expression);
+    expect(shape(parsePermissionExpression(rulesToExpression(tree)))).toBe(shape(tree));
+  });
+});
+
+describe("flattenExpression / inflateExpression", () => {
+  test("stores children by index, exclusions as [base, excluded]", () => {
+    const flat = flattenExpression(parsePermissionExpression("a | b - c"));
+    expect(flat.root).toBe(0);
+    expect(flat.nodes.map((n) => n.type)).toEqual(["exclusion", "union", "direct", "direct", "direct"]);
+    expect(flat.nodes[0].children).toEqual([1, 4]);
+    expect(flat.nodes[1].children).toEqual([2, 3]);
+  });
+
+  test.each([
+    "booker",
+    "owner->admin_of",
+    "(owner->admin_of | booker) & parent->view",
+    "a - (b - c) | d & e",
+    "a but not (b | c->d)",
+  ])("inflates %s back to the same tree, spans included", (expression) => {
+    const tree = parsePermissionExpression(expression);
+    expect(inflateExpression(flattenExpression(tree))).toEqual(tree);
+  });
+});
+
+describe("migrateLegacyRules", () => {
+  test("rewrites legacy flat rules as expression trees", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("permission_rules", {
+        objectType: "booking",
+        permission: "cancel",
+        expression: "parent->edit | booker",
+        rules: [
+          { type: "computed", sourceRelation: "parent", targetPermission: "edit" },
+          { type: "direct", relation: "booker" },
+        ],
+      });
+    });
+    await t.mutation(api.tuples.write, {
+      objectType: "booking",
+      objectId: "b",
+      relation: "booker",
+      subjectType: "user",
+      subjectId: "alice",
+    });
+    const check = {
+      objectType: "booking",
+      objectId: "b",
+      action: "cancel",
+      subjectType: "user",
+      subjectId: "alice",
+    };
+
+    // Evaluated from the expression string until migrated
+    expect((await t.query(api.permissions.can, check)).allowed).toBe(true);
+
+    expect(await t.mutation(api.rules.migrateLegacyRules, {})).toBe(1);
+    const stored = await t.run(async (ctx) => ctx.db.query("permission_rules").first());
+    expect(Array.isArray(stored!.rules)).toBe(false);
+    expect(stored!.rules).toEqual(flattenExpression(parsePermissionExpression("parent->edit | booker")));
+    expect((await t.query(api.permissions.can, check)).allowed).toBe(true);
+
+    // Already migrated rows are skipped
+    expect(await t.mutation(api.rules.migrateLegacyRules, {})).toBe(0);
+  });
+});
@@ -1,113 +1,396 @@
 /**
  * Permission DSL Parser
  *
- * Parses permission expressions in Zanzibar-style DSL syntax.
+ * Parses permission expressions in Zanzibar-style DSL syntax into a typed
+ * expression tree (AST).
  *
  * Syntax:
  *   - "booker"              → Direct relation check
  *   - "owner->admin_of"     → Computed: follow 'owner' relation, check 'admin_of' permission
  *   - "parent->edit | booker" → OR logic between multiple rules
+ *   - "owner->member_of & booker" → AND logic: every part must grant access
+ *   - "parent->view - blocked" → Exclusion: deny if the right side matches
+ *     (also written "parent->view but not blocked")
+ *   - "(owner->admin_of | booker) & parent->view" → Parentheses group sub-expressions
+ *
+ * Precedence (loosest to tightest): exclusion, `|`, `&`.
+ * So "a | b & c" means "a | (b & c)" and "a | b - c" means "(a | b) - c".
+ * Exclusion is left-associative: "a - b - c" means "(a - b) - c".
+ *
+ * Grammar:
+ *   expression   := union (("-" | "but not") union)*
+ *   union        := intersection ("|" intersection)*
+ *   intersection := primary ("&" primary)*
+ *   primary      := IDENT ("->" IDENT)? | "(" expression ")"
  *
  * Examples:
  *   parsePermissionExpression("booker")
- *   → [{ type: "direct", relation: "booker" }]
- *
- *   parsePermissionExpression("owner->admin_of")
- *   → [{ type: "computed", sourceRelation: "owner", targetPermission: "admin_of" }]
+ *   → { type: "direct", relation: "booker", start: 0, end: 6 }
  *
  *   parsePermissionExpression("parent->edit | booker")
- *   → [
- *       { type: "computed", sourceRelation: "parent", targetPermission: "edit" },
- *       { type: "direct", relation: "booker" }
- *     ]
+ *   → {
+ *       type: "union", start: 0, end: 21,
+ *       children: [
+ *         { type: "computed", sourceRelation: "parent", targetPermission: "edit", start: 0, end: 12 },
+ *         { type: "direct", relation: "booker", start: 15, end: 21 }
+ *       ]
+ *     }
  */
 
 /**
- * A parsed permission rule - either direct relation or computed via traversal
+ * Source position of a node or token: [start, end) character offsets
+ * into the original expression string
  */
-export type PermissionRule =
-  | { type: "direct"; relation: string }
-  | { type: "computed"; sourceRelation: string; targetPermission: string };
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A node of the permission expression tree
+ */
+export type ExpressionNode =
+  | ({ type: "direct"; relation: string } & SourceSpan)
+  | ({ type: "computed"; sourceRelation: string; targetPermission: string } & SourceSpan)
+  | ({ type: "union"; children: ExpressionNode[] } & SourceSpan)
+  | ({ type: "intersection"; children: ExpressionNode[] } & SourceSpan)
+  | ({ type: "exclusion"; base: ExpressionNode; excluded: ExpressionNode } & SourceSpan);
+
+/**
+ * Error thrown for invalid expressions, carrying the offending source span
+ */
+export class PermissionExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message);
+    this.name = "PermissionExpressionError";
+  }
+}
+
+type TokenKind = "ident" | "arrow" | "pipe" | "amp" | "minus" | "lparen" | "rparen" | "eof";
+
+interface Token extends SourceSpan {
+  kind: TokenKind;
+  value: string;
+}
+
+const IDENT_START = /[a-zA-Z_]/;
+const IDENT_PART = /[a-zA-Z0-9_]/;
+
+/**
+ * Split an expression into tokens with source positions
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (IDENT_START.test(char)) {
+      const start = i;
+      while (i < expression.length && IDENT_PART.test(expression[i])) i++;
+      tokens.push({ kind: "ident", value: expression.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (expression.startsWith("->", i)) {
+      tokens.push({ kind: "arrow", value: "->", start: i, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    const single: Record<string, TokenKind> = {
+      "|": "pipe",
+      "&": "amp",
+      "-": "minus",
+      "(": "lparen",
+      ")": "rparen",
+    };
+    if (single[char]) {
+      tokens.push({ kind: single[char], value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new PermissionExpressionError(`Unexpected character "${char}"`, i, i + 1);
+  }
+
+  tokens.push({ kind: "eof", value: "", start: expression.length, end: expression.length });
+  return tokens;
+}
 
 /**
- * Parse a permission expression DSL string into structured rules
+ * Parse a permission expression DSL string into an expression tree
  *
- * @param expression - DSL expression like "parent->edit | booker"
- * @returns Array of parsed rules (OR logic between them)
- * @throws Error if expression is invalid
+ * @param expression - DSL expression like "(owner->admin_of | booker) & parent->view"
+ * @returns Root node of the parsed expression tree
+ * @throws PermissionExpressionError if expression is invalid
  */
-export function parsePermissionExpression(expression: string): PermissionRule[] {
+export function parsePermissionExpression(expression: string): ExpressionNode {
   if (!expression || expression.trim().length === 0) {
-    throw new Error("Permission expression cannot be empty");
+    throw new PermissionExpressionError("Permission expression cannot be empty", 0, 0);
   }
 
-  const parts = expression.split("|").map((part) => part.trim());
-  const rules: PermissionRule[] = [];
+  const tokens = tokenize(expression);
+  let pos = 0;
 
-  for (const part of parts) {
-    if (part.length === 0) {
-      throw new Error(`Invalid permission expression: empty part in "${expression}"`);
-    }
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+  const next = () => tokens[pos++];
 
-    if (part.includes("->")) {
-      // Computed permission: "owner->admin_of"
-      const segments = part.split("->");
-      if (segments.length !== 2) {
-        throw new Error(
-          `Invalid computed permission: "${part}" (expected "relation->permission")`
-        );
+  const describe = (token: Token) =>
+    token.kind === "eof" ? "end of expression" : `"${token.value}"`;
+
+  const isButNot = () =>
+    peek().kind === "ident" && peek().value === "but" &&
+    peek(1).kind === "ident" && peek(1).value === "not";
+
+  const parseExpression = (): ExpressionNode => {
+    let node = parseUnion();
+
+    for (;;) {
+      if (peek().kind === "minus") {
+        next();
+      } else if (isButNot()) {
+        next();
+        next();
+      } else {
+        break;
       }
+      const excluded = parseUnion();
+      node = { type: "exclusion", base: node, excluded, start: node.start, end: excluded.end };
+    }
 
-      const [sourceRelation, targetPermission] = segments.map((s) => s.trim());
+    return node;
+  };
 
-      if (!sourceRelation || !targetPermission) {
-        throw new Error(
-          `Invalid computed permission: "${part}" (missing relation or permission)`
+  const parseUnion = (): ExpressionNode => {
+    const children = [parseIntersection()];
+    while (peek().kind === "pipe") {
+      next();
+      children.push(parseIntersection());
+    }
+    return children.length === 1
+      ? children[0]
+      : { type: "union", children, start: children[0].start, end: children[children.length - 1].end };
+  };
+
+  const parseIntersection = (): ExpressionNode => {
+    const children = [parsePrimary()];
+    while (peek().kind === "amp") {
+      next();
+      children.push(parsePrimary());
+    }
+    return children.length === 1
+      ? children[0]
+      : { type: "intersection", children, start: children[0].start, end: children[children.length - 1].end };
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token.kind === "lparen") {
+      const inner = parseExpression();
+      const close = next();
+      if (close.kind !== "rparen") {
+        throw new PermissionExpressionError(
+          `Expected ")" to close "(" at position ${token.start}, found ${describe(close)}`,
+          close.start,
+          close.end
         );
       }
+      // Widen the span to include the parentheses
+      return { ...inner, start: token.start, end: close.end };
+    }
 
-      // Validate no special characters (basic sanity check)
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(sourceRelation)) {
-        throw new Error(`Invalid relation name: "${sourceRelation}"`);
-      }
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(targetPermission)) {
-        throw new Error(`Invalid permission name: "${targetPermission}"`);
-      }
+    if (token.kind !== "ident") {
+      throw new PermissionExpressionError(
+        `Expected relation name, found ${describe(token)}`,
+        token.start,
+        token.end
+      );
+    }
 
-      rules.push({
-        type: "computed",
-        sourceRelation,
-        targetPermission,
-      });
-    } else {
+    if (peek().kind !== "arrow") {
       // Direct relation: "booker"
-      const relation = part.trim();
-
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(relation)) {
-        throw new Error(`Invalid relation name: "${relation}"`);
-      }
+      return { type: "direct", relation: token.value, start: token.start, end: token.end };
+    }
 
-      rules.push({
-        type: "direct",
-        relation,
-      });
+    // Computed permission: "owner->admin_of"
+    next();
+    const target = next();
+    if (target.kind !== "ident") {
+      throw new PermissionExpressionError(
+        `Expected permission name after "->", found ${describe(target)}`,
+        target.start,
+        target.end
+      );
     }
+    if (peek().kind === "arrow") {
+      throw new PermissionExpressionError(
+        `Invalid computed permission: only one "->" hop is allowed per part`,
+        peek().start,
+        peek().end
+      );
+    }
+
+    return {
+      type: "computed",
+      sourceRelation: token.value,
+      targetPermission: target.value,
+      start: token.start,
+      end: target.end,
+    };
+  };
+
+  const root = parseExpression();
+  const trailing = peek();
+  if (trailing.kind !== "eof") {
+    throw new PermissionExpressionError(
+      `Unexpected ${describe(trailing)}`,
+      trailing.start,
+      trailing.end
+    );
   }
 
-  return rules;
+  return root;
 }
 
+/** Binding strength of each node type (higher binds tighter) */
+const PRECEDENCE: Record<ExpressionNode["type"], number> = {
+  exclusion: 1,
+  union: 2,
+  intersection: 3,
+  direct: 4,
+  computed: 4,
+};
+
 /**
- * Convert parsed rules back to DSL string (for display)
+ * Convert an expression tree back to DSL string (for display)
+ *
+ * Adds parentheses only where precedence requires them, so that
+ * parsing the output yields an equivalent tree.
  */
-export function rulesToExpression(rules: PermissionRule[]): string {
-  return rules
-    .map((rule) => {
-      if (rule.type === "direct") {
-        return rule.relation;
-      } else {
-        return `${rule.sourceRelation}->${rule.targetPermission}`;
+export function rulesToExpression(node: ExpressionNode): string {
+  const wrap = (child: ExpressionNode, minPrecedence: number) => {
+    const text = rulesToExpression(child);
+    return PRECEDENCE[child.type] < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case "direct":
+      return node.relation;
+    case "computed":
+      return `${node.sourceRelation}->${node.targetPermission}`;
+    case "union":
+      return node.children.map((c) => wrap(c, PRECEDENCE.union)).join(" | ");
+    case "intersection":
+      return node.children.map((c) => wrap(c, PRECEDENCE.intersection)).join(" & ");
+    case "exclusion":
+      // Left-associative: a nested exclusion on the right needs parentheses
+      return `${wrap(node.base, PRECEDENCE.exclusion)} - ${wrap(node.excluded, PRECEDENCE.exclusion + 1)}`;
+  }
+}
+
+/**
+ * Flattened, storage-friendly form of an expression tree
+ *
+ * Convex validators can't describe recursive shapes, so the tree is stored
+ * as a node list where parents reference their children by index.
+ * Exclusion nodes have exactly two children: [base, excluded].
+ */
+export interface FlatExpression {
+  root: number;
+  nodes: FlatExpressionNode[];
+}
+
+export interface FlatExpressionNode extends SourceSpan {
+  type: ExpressionNode["type"];
+  relation?: string;
+  sourceRelation?: string;
+  targetPermission?: string;
+  children?: number[];
+}
+
+/**
+ * Convert an expression tree into its flattened storage form
+ */
+export function flattenExpression(node: ExpressionNode): FlatExpression {
+  const nodes: FlatExpressionNode[] = [];
+
+  const visit = (current: ExpressionNode): number => {
+    const index = nodes.length;
+    const { start, end } = current;
+
+    switch (current.type) {
+      case "direct":
+        nodes.push({ type: "direct", relation: current.relation, start, end });
+        break;
+      case "computed":
+        nodes.push({
+          type: "computed",
+          sourceRelation: current.sourceRelation,
+          targetPermission: current.targetPermission,
+          start,
+          end,
+        });
+        break;
+      case "union":
+      case "intersection": {
+        const flat: FlatExpressionNode = { type: current.type, children: [], start, end };
+        nodes.push(flat);
+        flat.children = current.children.map(visit);
+        break;
+      }
+      case "exclusion": {
+        const flat: FlatExpressionNode = { type: "exclusion", children: [], start, end };
+        nodes.push(flat);
+        flat.children = [visit(current.base), visit(current.excluded)];
+        break;
       }
-    })
-    .join(" | ");
+    }
+
+    return index;
+  };
+
+  return { root: visit(node), nodes };
+}
+
+/**
+ * Rebuild an expression tree from its flattened storage form
+ */
+export function inflateExpression(flat: FlatExpression): ExpressionNode {
+  const build = (index: number): ExpressionNode => {
+    const node = flat.nodes[index];
+    const { start, end } = node;
+    const children = (node.children ?? []).map(build);
+
+    switch (node.type) {
+      case "direct":
+        return { type: "direct", relation: node.relation!, start, end };
+      case "computed":
+        return {
+          type: "computed",
+          sourceRelation: node.sourceRelation!,
+          targetPermission: node.targetPermission!,
+          start,
+          end,
+        };
+      case "union":
+      case "intersection":
+        return { type: node.type, children, start, end };
+      case "exclusion":
+        return { type: "exclusion", base: children[0], excluded: children[1], start, end };
+    }
+  };
+
+  return build(flat.root);
 }
@@ -0,0 +1,198 @@
+import { v, type Infer } from "convex/values";
+import { internalMutation, query, type MutationCtx, type QueryCtx } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import type { WithoutSystemFields } from "convex/server";
+
+/**
+ * Background Jobs
+ *
+ * Bulk deletes that may not fit in one transaction run as scheduled jobs:
+ * each batch deletes up to `batchSize` rows and schedules the next, and
+ * progress is recorded in the `jobs` table so callers can poll `getJob`.
+ *
+ * A clear job deletes the rows that existed when it started, chosen by
+ * `_creationTime`; rows written afterwards (e.g. by a re-seed in the same
+ * mutation) are kept. A patch keeps a row's `_creationTime`, so upserts go
+ * through `updateRow`, which re-inserts rows a running job would delete.
+ */
+
+export const jobKindValidator = v.union(
+  v.literal("clearTuples"),
+  v.literal("clearRules"),
+  v.literal("clearObjectTypes")
+);
+
+export type JobKind = Infer<typeof jobKindValidator>;
+
+export const jobValidator = v.object({
+  jobId: v.id("jobs"),
+  kind: jobKindValidator,
+  status: v.union(v.literal("running"), v.literal("completed")),
+  deleted: v.number(),
+  startedAt: v.number(),
+  finishedAt: v.optional(v.number()),
+});
+
+/**
+ * Table each clear job empties
+ */
+const CLEARED_TABLES = {
+  clearTuples: "tuples",
+  clearRules: "permission_rules",
+  clearObjectTypes: "object_types",
+} as const;
+
+type ClearedTable = (typeof CLEARED_TABLES)[JobKind];
+
+export const DEFAULT_CLEAR_BATCH_SIZE = 1000;
+
+/**
+ * Newest `_creationTime` that running clear jobs will still delete from a
+ * table, or undefined if none is running
+ */
+export async function pendingClearCutoff(ctx: QueryCtx, table: ClearedTable): Promise<number | undefined> {
+  const kind = (Object.keys(CLEARED_TABLES) as JobKind[]).find((k) => CLEARED_TABLES[k] === table)!;
+  const running = await ctx.db
+    .query("jobs")
+    .withIndex("by_kind_status", (q) => q.eq("kind", kind).eq("status", "running"))
+    .collect();
+
+  const cutoffs = running.flatMap((job) => job.throughCreationTime ?? []);
+  return cutoffs.length > 0 ? Math.max(...cutoffs) : undefined;
+}
+
+/**
+ * Update a row written by an upsert so the write survives clear jobs
+ *
+ * If a running clear job will still delete the row, it is deleted and
+ * re-inserted with `fields` applied (getting a new id and creation time);
+ * otherwise it's patched, or left alone if `fields` is empty. Pass no
+ * fields when re-writing an unchanged row.
+ *
+ * @returns The row's id, which is new if the row was re-inserted
+ */
+export async function updateRow<T extends ClearedTable>(
+  ctx: MutationCtx,
+  table: T,
+  row: Doc<T>,
+  fields: Partial<WithoutSystemFields<Doc<T>>>
+): Promise<Id<T>> {
+  const cutoff = await pendingClearCutoff(ctx, table);
+  if (cutoff !== undefined && row._creationTime <= cutoff) {
+    const { _id, _creationTime, ...stored } = row;
+    await ctx.db.delete(_id);
+    return await ctx.db.insert(table, { ...stored, ...fields } as WithoutSystemFields<Doc<T>>);
+  }
+
+  if (Object.keys(fields).length > 0) {
+    await ctx.db.patch(row._id, fields as Partial<Doc<T>>);
+  }
+  return row._id;
+}
+
+/**
+ * Create a clear job and schedule its first batch
+ *
+ * @returns The job id, for `getJob`
+ */
+export async function startClearJob(
+  ctx: MutationCtx,
+  kind: JobKind,
+  batchSize = DEFAULT_CLEAR_BATCH_SIZE
+): Promise<Id<"jobs">> {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`batchSize must be a positive integer (got ${batchSize})`);
+  }
+
+  const newest = await ctx.db.query(CLEARED_TABLES[kind]).order("desc").first();
+  const jobId = await ctx.db.insert("jobs", {
+    kind,
+    status: "running",
+    deleted: 0,
+    batchSize,
+    throughCreationTime: newest?._creationTime,
+    startedAt: Date.now(),
+  });
+
+  await ctx.scheduler.runAfter(0, internal.jobs.runClearBatch, { jobId });
+  return jobId;
+}
+
+/**
+ * Delete one batch for a clear job, then schedule the next or finish
+ */
+export const runClearBatch = internalMutation({
+  args: { jobId: v.id("jobs") },
+  returns: v.null(),
+  handler: async (ctx, { jobId }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job || job.status !== "running") return null;
+
+    const cutoff = job.throughCreationTime;
+    const rows =
+      cutoff === undefined
+        ? []
+        : await ctx.db
+            .query(CLEARED_TABLES[job.kind])
+            .withIndex("by_creation_time", (q) => q.lte("_creationTime", cutoff))
+            .take(job.batchSize);
+
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
+
+    const deleted = job.deleted + rows.length;
+    if (rows.length < job.batchSize) {
+      await ctx.db.patch(jobId, { deleted, status: "completed", finishedAt: Date.now() });
+    } else {
+      await ctx.db.patch(jobId, { deleted });
+      await ctx.scheduler.runAfter(0, internal.jobs.runClearBatch, { jobId });
+    }
+    return null;
+  },
+});
+
+/**
+ * Get a job's progress
+ *
+ * @returns The job, or null if the id is unknown
+ *
+ * @example
+ * const job = await getJob({ jobId });
+ * // { kind: "clearTuples", status: "running", deleted: 12000, startedAt: ... }
+ */
+export const getJob = query({
+  args: { jobId: v.string() },
+  returns: v.union(jobValidator, v.null()),
+  handler: async (ctx, args) => {
+    const jobId = ctx.db.normalizeId("jobs", args.jobId);
+    const job = jobId && (await ctx.db.get(jobId));
+    if (!job) return null;
+
+    return toJob(job);
+  },
+});
+
+/**
+ * List the most recent jobs, newest first
+ */
+export const listJobs = query({
+  args: { limit: v.optional(v.number()) },
+  returns: v.array(jobValidator),
+  handler: async (ctx, args) => {
+    const jobs = await ctx.db.query("jobs").order("desc").take(args.limit ?? 20);
+    return jobs.map(toJob);
+  },
+});
+
+function toJob(job: Doc<"jobs">) {
+  return {
+    jobId: job._id,
+    kind: job.kind,
+    status: job.status,
+    deleted: job.deleted,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
@@ -1,13 +1,53 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { startClearJob, updateRow } from "./jobs.js";
+
+// Allowed subject type: { type: "user" } or userset { type: "team", relation: "member" }
+const targetTypeSchema = v.object({
+  type: v.string(),
+  relation: v.optional(v.string()),
+});
 
 // Relation schema for reuse
 const relationSchema = v.object({
   name: v.string(),
-  targetType: v.string(),
+  targetTypes: v.array(targetTypeSchema),
   description: v.optional(v.string()),
+  // Allow public wildcard tuples ("type:*") for this relation's types
+  allowWildcard: v.optional(v.boolean()),
 });
 
+export type TargetType = { type: string; relation?: string };
+
+type StoredRelation = Doc<"object_types">["relations"][number];
+
+/**
+ * Allowed subject types of a stored relation
+ *
+ * Rows still in the legacy single `targetType` format are read as a
+ * one-element list, so everything works before migration has run.
+ */
+export function relationTargets(relation: StoredRelation): TargetType[] {
+  return relation.targetTypes ?? (relation.targetType !== undefined ? [{ type: relation.targetType }] : []);
+}
+
+/**
+ * Format an allowed subject type for messages: "user" or "team#member"
+ */
+export function formatTargetType(target: TargetType): string {
+  return target.relation !== undefined ? `${target.type}#${target.relation}` : target.type;
+}
+
+function toRelationSchema(relation: StoredRelation) {
+  return {
+    name: relation.name,
+    targetTypes: relationTargets(relation),
+    description: relation.description,
+    allowWildcard: relation.allowWildcard,
+  };
+}
+
 // Object type schema for return values
 const objectTypeSchema = v.object({
   name: v.string(),
@@ -17,6 +57,14 @@ const objectTypeSchema = v.object({
 
 /**
  * Register or update an object type with its relations
+ *
+ * Each relation must allow at least one subject type.
+ *
+ * @example
+ * registerObjectType("folder", [
+ *   { name: "parent", targetTypes: [{ type: "folder" }, { type: "workspace" }] },
+ *   { name: "viewer", targetTypes: [{ type: "user" }, { type: "team", relation: "member" }] },
+ * ])
  */
 export const registerObjectType = mutation({
   args: {
@@ -26,6 +74,12 @@ export const registerObjectType = mutation({
   },
   returns: v.id("object_types"),
   handler: async (ctx, { name, description, relations }) => {
+    for (const relation of relations) {
+      if (relation.targetTypes.length === 0) {
+        throw new Error(`Relation "${name}.${relation.name}" must allow at least one target type`);
+      }
+    }
+
     // Upsert: check if type already exists
     const existing = await ctx.db
       .query("object_types")
@@ -33,14 +87,38 @@ export const registerObjectType = mutation({
       .first();
 
     if (existing) {
-      await ctx.db.patch(existing._id, { description, relations });
-      return existing._id;
+      return await updateRow(ctx, "object_types", existing, { description, relations });
     }
 
     return await ctx.db.insert("object_types", { name, description, relations });
   },
 });
 
+/**
+ * Migrate relations stored with a single `targetType` to `targetTypes`
+ *
+ * Safe to call multiple times (already migrated rows are skipped).
+ *
+ * @returns Number of migrated object types
+ */
+export const migrateRelationTargets = mutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const types = await ctx.db.query("object_types").collect();
+    let migrated = 0;
+
+    for (const type of types) {
+      if (!type.relations.some((r) => r.targetTypes === undefined)) continue;
+
+      await ctx.db.patch(type._id, { relations: type.relations.map(toRelationSchema) });
+      migrated++;
+    }
+
+    return migrated;
+  },
+});
+
 /**
  * Get a specific object type
  */
@@ -58,7 +136,7 @@ export const getObjectType = query({
     return {
       name: type.name,
       description: type.description,
-      relations: type.relations,
+      relations: type.relations.map(toRelationSchema),
     };
   },
 });
@@ -75,7 +153,7 @@ export const listObjectTypes = query({
     return types.map((t) => ({
       name: t.name,
       description: t.description,
-      relations: t.relations,
+      relations: t.relations.map(toRelationSchema),
     }));
   },
 });
@@ -103,18 +181,18 @@ export const deleteObjectType = mutation({
 
 /**
  * Clear all object types
+ *
+ * Requires `confirm: "DELETE_ALL_OBJECT_TYPES"`. Runs as a background job
+ * (see jobs.ts) and returns its id.
  */
 export const clearAllObjectTypes = mutation({
-  args: {},
-  returns: v.number(),
-  handler: async (ctx) => {
-    const types = await ctx.db.query("object_types").collect();
-
-    for (const type of types) {
-      await ctx.db.delete(type._id);
-    }
-
-    return types.length;
+  args: {
+    confirm: v.literal("DELETE_ALL_OBJECT_TYPES"),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    return await startClearJob(ctx, "clearObjectTypes", args.batchSize);
   },
 });
 
@@ -131,7 +209,7 @@ export const getRelationsForType = query({
       .withIndex("by_name", (q) => q.eq("name", objectType))
       .first();
 
-    return type?.relations ?? [];
+    return (type?.relations ?? []).map(toRelationSchema);
   },
 });
 
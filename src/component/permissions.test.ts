@@ -0,0 +1,646 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+describe("lookupResources", () => {
+  test("follows userset grants through group membership", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "team",
+      relations: [{ name: "member", targetTypes: [{ type: "user" }] }],
+    });
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "resource",
+      relations: [{ name: "viewer", targetTypes: [{ type: "team", relation: "member" }] }],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "resource",
+      permission: "view",
+      expression: "viewer",
+    });
+    await t.mutation(api.tuples.write, {
+      objectType: "resource",
+      objectId: "x",
+      relation: "viewer",
+      subjectType: "team",
+      subjectId: "eng",
+      subjectRelation: "member",
+    });
+    await t.mutation(api.tuples.write, {
+      objectType: "team",
+      objectId: "eng",
+      relation: "member",
+      subjectType: "user",
+      subjectId: "bob",
+    });
+
+    const bob = { subjectType: "user", subjectId: "bob" };
+    const check = await t.query(api.permissions.can, {
+      ...bob,
+      action: "view",
+      objectType: "resource",
+      objectId: "x",
+    });
+    expect(check.allowed).toBe(true);
+
+    const lookup = await t.query(api.permissions.lookupResources, {
+      ...bob,
+      action: "view",
+      objectType: "resource",
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(lookup.page).toEqual(["x"]);
+    expect(lookup.isDone).toBe(true);
+  });
+});
+
+describe("userset subjects", () => {
+  test("can checks grants to the userset itself", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.tuples.write, {
+      objectType: "resource",
+      objectId: "x",
+      relation: "viewer",
+      subjectType: "team",
+      subjectId: "eng",
+      subjectRelation: "member",
+    });
+    // A tuple for team:eng itself doesn't grant its members
+    await t.mutation(api.tuples.write, {
+      objectType: "resource",
+      objectId: "x",
+      relation: "editor",
+      subjectType: "team",
+      subjectId: "eng",
+    });
+
+    const can = async (action: string, subjectRelation?: string) =>
+      (
+        await t.query(api.permissions.can, {
+          objectType: "resource",
+          objectId: "x",
+          action,
+          subjectType: "team",
+          subjectId: "eng",
+          subjectRelation,
+        })
+      ).allowed;
+
+    expect(await can("viewer", "member")).toBe(true);
+    expect(await can("viewer")).toBe(false);
+    expect(await can("editor", "member")).toBe(false);
+    expect(await can("editor")).toBe(true);
+
+    expect(await t.query(api.check.listRelations, { subjectType: "team", subjectId: "eng" })).toEqual(
+      expect.arrayContaining([
+        { objectType: "resource", objectId: "x", relation: "viewer", subjectRelation: "member" },
+        { objectType: "resource", objectId: "x", relation: "editor" },
+      ])
+    );
+    expect(
+      await t.query(api.check.listRelations, { subjectType: "team", subjectId: "eng", subjectRelation: "member" })
+    ).toEqual([{ objectType: "resource", objectId: "x", relation: "viewer", subjectRelation: "member" }]);
+  });
+});
+
+describe("intersection", () => {
+  const doc = { objectType: "doc", objectId: "d" };
+
+  /**
+   * doc.edit = editor & parent->member: editors of d who are also members
+   * of its folder:f
+   */
+  async function seedIntersection() {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "folder",
+      relations: [{ name: "member", targetTypes: [{ type: "user" }] }],
+    });
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "doc",
+      relations: [
+        { name: "editor", targetTypes: [{ type: "user" }] },
+        { name: "parent", targetTypes: [{ type: "folder" }] },
+      ],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "doc",
+      permission: "edit",
+      expression: "editor & parent->member",
+    });
+    await t.mutation(api.tuples.write, { ...doc, relation: "parent", subjectType: "folder", subjectId: "f" });
+    for (const subjectId of ["alice", "bob"]) {
+      await t.mutation(api.tuples.write, { ...doc, relation: "editor", subjectType: "user", subjectId });
+    }
+    for (const subjectId of ["alice", "carol"]) {
+      await t.mutation(api.tuples.write, {
+        objectType: "folder",
+        objectId: "f",
+        relation: "member",
+        subjectType: "user",
+        subjectId,
+      });
+    }
+    return t;
+  }
+
+  test("grants only when every branch holds", async () => {
+    const t = await seedIntersection();
+    const can = (subjectId: string) =>
+      t.query(api.permissions.can, { ...doc, action: "edit", subjectType: "user", subjectId });
+
+    const alice = await can("alice");
+    expect(alice.allowed).toBe(true);
+    expect(alice.reason).toMatch(/All of editor & parent->member/);
+    expect((await can("bob")).reason).toMatch(/Intersection branch parent->member failed/);
+    expect((await can("carol")).reason).toMatch(/Intersection branch editor failed/);
+  });
+
+  test("lookupResources and lookupSubjects apply every branch", async () => {
+    const t = await seedIntersection();
+    const resources = await t.query(api.permissions.lookupResources, {
+      objectType: "doc",
+      action: "edit",
+      subjectType: "user",
+      subjectId: "bob",
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(resources.page).toEqual([]);
+
+    const subjects = await t.query(api.permissions.lookupSubjects, { ...doc, action: "edit", subjectType: "user" });
+    expect(subjects.map((s) => s.subjectId)).toEqual(["alice"]);
+  });
+
+  test("binds tighter than union and exclusion", async () => {
+    const t = await seedIntersection();
+    await t.mutation(api.rules.definePermission, {
+      objectType: "doc",
+      permission: "view",
+      expression: "parent->member | editor & parent->member but not editor",
+    });
+    const can = async (subjectId: string) =>
+      (await t.query(api.permissions.can, { ...doc, action: "view", subjectType: "user", subjectId })).allowed;
+
+    // (parent->member | (editor & parent->member)) - editor
+    expect(await can("carol")).toBe(true);
+    expect(await can("alice")).toBe(false);
+    expect(await can("bob")).toBe(false);
+  });
+});
+
+describe("wildcard subjects", () => {
+  const studio = { objectType: "resource", objectId: "studio-a" };
+
+  /**
+   * resource.viewer allows user:* (public to every user)
+   */
+  async function seedPublicResource() {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "resource",
+      relations: [
+        { name: "viewer", targetTypes: [{ type: "user" }, { type: "team", relation: "member" }], allowWildcard: true },
+        { name: "owner", targetTypes: [{ type: "user" }] },
+      ],
+    });
+    await t.mutation(api.tuples.write, { ...studio, relation: "viewer", subjectType: "user", subjectId: "*" });
+    return t;
+  }
+
+  test("grants every subject of the wildcard's type", async () => {
+    const t = await seedPublicResource();
+    const can = (subjectType: string, subjectId: string, subjectRelation?: string) =>
+      t.query(api.permissions.can, { ...studio, action: "viewer", subjectType, subjectId, subjectRelation });
+
+    const anyone = await can("user", "anyone");
+    expect(anyone.allowed).toBe(true);
+    expect(anyone.reason).toMatch(/public: user:\*/);
+    // Not other subject types, and not usersets
+    expect((await can("team", "eng")).allowed).toBe(false);
+    expect((await can("team", "eng", "member")).allowed).toBe(false);
+
+    const lookup = await t.query(api.permissions.lookupResources, {
+      objectType: "resource",
+      action: "viewer",
+      subjectType: "user",
+      subjectId: "anyone",
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(lookup.page).toEqual(["studio-a"]);
+  });
+
+  test("is rejected on relations that don't allow it", async () => {
+    const t = await seedPublicResource();
+    await expect(
+      t.mutation(api.tuples.write, { ...studio, relation: "owner", subjectType: "user", subjectId: "*" })
+    ).rejects.toThrow(/not allowed on resource.owner/);
+    await expect(
+      t.mutation(api.tuples.write, { ...studio, relation: "viewer", subjectType: "org", subjectId: "*" })
+    ).rejects.toThrow(/does not match resource.viewer target types/);
+    await expect(
+      t.mutation(api.tuples.write, {
+        ...studio,
+        relation: "viewer",
+        subjectType: "team",
+        subjectId: "*",
+        subjectRelation: "member",
+      })
+    ).rejects.toThrow(/cannot have a subject relation/);
+  });
+});
+
+describe("expiry", () => {
+  const studio = { objectType: "resource", objectId: "studio-a" };
+  const bob = { subjectType: "user", subjectId: "bob" };
+
+  test("ignores expired tuples not yet deleted", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "org",
+      relations: [{ name: "member_of", targetTypes: [{ type: "user" }] }],
+    });
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "resource",
+      relations: [
+        { name: "viewer", targetTypes: [{ type: "user" }] },
+        { name: "owner", targetTypes: [{ type: "org" }] },
+      ],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "resource",
+      permission: "view",
+      expression: "viewer | owner->member_of",
+    });
+    await t.mutation(api.tuples.write, { objectType: "org", objectId: "acme", relation: "member_of", ...bob });
+    // Expired, but its scheduled delete hasn't run yet
+    await t.run(async (ctx) => {
+      const expiresAt = Date.now() - 1000;
+      await ctx.db.insert("tuples", { ...studio, relation: "viewer", ...bob, expiresAt });
+      await ctx.db.insert("tuples", { ...studio, relation: "owner", subjectType: "org", subjectId: "acme", expiresAt });
+    });
+
+    const check = await t.query(api.permissions.can, { ...studio, action: "view", ...bob });
+    expect(check.allowed).toBe(false);
+
+    const lookup = await t.query(api.permissions.lookupResources, {
+      objectType: "resource",
+      action: "view",
+      ...bob,
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(lookup.page).toEqual([]);
+
+    const subjects = await t.query(api.permissions.lookupSubjects, { ...studio, action: "view", subjectType: "user" });
+    expect(subjects).toEqual([]);
+
+    // Unexpired tuples still grant
+    await t.mutation(api.tuples.write, { ...studio, relation: "viewer", ...bob, expiresAt: Date.now() + 60_000 });
+    expect((await t.query(api.permissions.can, { ...studio, action: "view", ...bob })).allowed).toBe(true);
+  });
+});
+
+describe("cycles", () => {
+  /**
+   * folder.view = viewer | parent->view, with folder:a and folder:b each
+   * other's parent
+   */
+  async function seedCycle() {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "folder",
+      relations: [
+        { name: "viewer", targetTypes: [{ type: "user" }] },
+        { name: "parent", targetTypes: [{ type: "folder" }] },
+      ],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "folder",
+      permission: "view",
+      expression: "viewer | parent->view",
+    });
+    for (const [child, parent] of [["a", "b"], ["b", "a"]]) {
+      await t.mutation(api.tuples.write, {
+        objectType: "folder",
+        objectId: child,
+        relation: "parent",
+        subjectType: "folder",
+        subjectId: parent,
+      });
+    }
+    return t;
+  }
+
+  test("reports the cycle in triedPaths when denied", async () => {
+    const t = await seedCycle();
+    const result = await t.query(api.permissions.canWithPath, {
+      objectType: "folder",
+      objectId: "a",
+      action: "view",
+      subjectType: "user",
+      subjectId: "mallory",
+    });
+
+    expect(result.allowed).toBe(false);
+    const cycles = result.triedPaths?.filter((p) => p.rulePart === "cycle-check") ?? [];
+    expect(cycles.map((p) => p.failureReason)).toEqual([
+      "Cycle detected: folder:a#view -> folder:b#view -> folder:a#view",
+    ]);
+    expect(result.triedPaths?.some((p) => p.rulePart === "depth-check")).toBe(false);
+  });
+
+  test("still grants through a cycle", async () => {
+    const t = await seedCycle();
+    await t.mutation(api.tuples.write, {
+      objectType: "folder",
+      objectId: "b",
+      relation: "viewer",
+      subjectType: "user",
+      subjectId: "alice",
+    });
+
+    const result = await t.query(api.permissions.canWithPath, {
+      objectType: "folder",
+      objectId: "a",
+      action: "view",
+      subjectType: "user",
+      subjectId: "alice",
+    });
+    expect(result.allowed).toBe(true);
+    expect(result.path?.map((n) => `${n.nodeType}:${n.nodeId}`)).toEqual(["folder:a", "folder:b", "user:alice"]);
+  });
+});
+
+describe("exclusion", () => {
+  const eve = { subjectType: "user", subjectId: "eve" };
+  const doc = { objectType: "doc", objectId: "d" };
+
+  /**
+   * doc:d is in folder:f; eve is a viewer of d but blocked on f
+   */
+  async function seedBlockedViewer() {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "folder",
+      relations: [
+        { name: "blocked", targetTypes: [{ type: "user" }] },
+        { name: "parent", targetTypes: [{ type: "folder" }] },
+      ],
+    });
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "doc",
+      relations: [
+        { name: "viewer", targetTypes: [{ type: "user" }] },
+        { name: "parent", targetTypes: [{ type: "folder" }] },
+      ],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "doc",
+      permission: "view",
+      expression: "viewer - parent->blocked",
+    });
+    await t.mutation(api.tuples.write, { ...doc, relation: "viewer", ...eve });
+    await t.mutation(api.tuples.write, { ...doc, relation: "parent", subjectType: "folder", subjectId: "f" });
+    return t;
+  }
+
+  test("denies when the excluded side holds", async () => {
+    const t = await seedBlockedViewer();
+    await t.mutation(api.tuples.write, { objectType: "folder", objectId: "f", relation: "blocked", ...eve });
+
+    const result = await t.query(api.permissions.can, { ...eve, action: "view", ...doc });
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toMatch(/Denied by exclusion/);
+  });
+
+  test("fails closed when maxDepth cuts off the excluded side", async () => {
+    const t = await seedBlockedViewer();
+    await t.mutation(api.tuples.write, { objectType: "folder", objectId: "f", relation: "blocked", ...eve });
+
+    const result = await t.query(api.permissions.can, { ...eve, action: "view", ...doc, maxDepth: 0 });
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toMatch(/could not be fully evaluated/);
+
+    const lookup = await t.query(api.permissions.lookupResources, {
+      ...eve,
+      action: "view",
+      objectType: "doc",
+      maxDepth: 0,
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    expect(lookup.page).toEqual([]);
+  });
+
+  test("fails closed when the excluded side runs into a cycle", async () => {
+    const t = await seedBlockedViewer();
+    await t.mutation(api.rules.definePermission, {
+      objectType: "folder",
+      permission: "blocked",
+      expression: "blocked | parent->blocked",
+    });
+    // folder:f and folder:g are each other's parent
+    await t.mutation(api.tuples.write, {
+      objectType: "folder",
+      objectId: "f",
+      relation: "parent",
+      subjectType: "folder",
+      subjectId: "g",
+    });
+    await t.mutation(api.tuples.write, {
+      objectType: "folder",
+      objectId: "g",
+      relation: "parent",
+      subjectType: "folder",
+      subjectId: "f",
+    });
+
+    const result = await t.query(api.permissions.canWithPath, { ...eve, action: "view", ...doc });
+    expect(result.allowed).toBe(false);
+    expect(result.triedPaths?.some((tried) => tried.rulePart === "cycle-check")).toBe(true);
+  });
+
+  test("grants when the excluded side is fully evaluated and doesn't hold", async () => {
+    const t = await seedBlockedViewer();
+
+    const result = await t.query(api.permissions.can, { ...eve, action: "view", ...doc, maxDepth: 1 });
+    expect(result.allowed).toBe(true);
+  });
+});
+
+describe("measureReads", () => {
+  test("reads shared parents once with the cache", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "org",
+      relations: [{ name: "member_of", targetTypes: [{ type: "user" }] }],
+    });
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "resource",
+      relations: [{ name: "owner", targetTypes: [{ type: "org" }] }],
+    });
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "booking",
+      relations: [{ name: "parent", targetTypes: [{ type: "resource" }] }],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "resource",
+      permission: "view",
+      expression: "owner->member_of",
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "booking",
+      permission: "view",
+      expression: "parent->view",
+    });
+    for (const org of ["acme", "betaco"]) {
+      await t.mutation(api.tuples.write, {
+        objectType: "resource",
+        objectId: "r",
+        relation: "owner",
+        subjectType: "org",
+        subjectId: org,
+      });
+    }
+    await t.mutation(api.tuples.write, {
+      objectType: "org",
+      objectId: "betaco",
+      relation: "member_of",
+      subjectType: "user",
+      subjectId: "alice",
+    });
+
+    const checks = [];
+    for (const objectId of ["b1", "b2", "b3"]) {
+      await t.mutation(api.tuples.write, {
+        objectType: "booking",
+        objectId,
+        relation: "parent",
+        subjectType: "resource",
+        subjectId: "r",
+      });
+      for (const subjectId of ["alice", "mallory"]) {
+        checks.push({ objectType: "booking", objectId, action: "view", subjectType: "user", subjectId });
+      }
+    }
+
+    const reads = await t.query(api.permissions.measureReads, { checks });
+    expect(reads.allowed).toEqual([true, false, true, false, true, false]);
+    expect(reads.cached.queries).toBeLessThan(reads.uncached.queries);
+    expect(reads.cached.documents).toBeLessThan(reads.uncached.documents);
+  });
+});
+
+describe("caveats", () => {
+  const studio = { objectType: "resource", objectId: "studio-a" };
+  const guest = { subjectType: "user", subjectId: "guest" };
+
+  /**
+   * guest views studio-a during business hours (hour is request context,
+   * `open` is stored on the tuple)
+   */
+  async function seedCaveatedViewer(caveatContext?: Record<string, unknown>) {
+    const t = initConvexTest();
+    await t.mutation(api.caveats.defineCaveat, {
+      name: "business_hours",
+      parameters: [
+        { name: "hour", type: "number" },
+        { name: "open", type: "number" },
+      ],
+      expression: "hour >= open && hour < 17",
+    });
+    await t.mutation(api.tuples.write, {
+      ...studio,
+      relation: "viewer",
+      ...guest,
+      caveatName: "business_hours",
+      caveatContext: { open: 9, ...caveatContext },
+    });
+    return t;
+  }
+
+  test("grants, denies or is conditional depending on context", async () => {
+    const t = await seedCaveatedViewer();
+    const can = (context?: Record<string, unknown>) =>
+      t.query(api.permissions.can, { ...studio, action: "viewer", ...guest, context });
+
+    expect(await can({ hour: 10 })).toMatchObject({ allowed: true });
+    const denied = await can({ hour: 8 });
+    expect(denied.allowed).toBe(false);
+    expect(denied.missingContext).toBeUndefined();
+
+    const conditional = await can();
+    expect(conditional).toMatchObject({ allowed: false, missingContext: ["hour"] });
+    expect(conditional.reason).toMatch(/Conditional: missing context hour/);
+  });
+
+  test("stored context takes precedence over the request context", async () => {
+    const t = await seedCaveatedViewer({ open: 12 });
+    const result = await t.query(api.permissions.can, {
+      ...studio,
+      action: "viewer",
+      ...guest,
+      context: { hour: 10, open: 0 },
+    });
+    expect(result.allowed).toBe(false);
+  });
+
+  test("denies on a wrongly typed context value", async () => {
+    const t = await seedCaveatedViewer();
+    const result = await t.query(api.permissions.canWithPath, {
+      ...studio,
+      action: "viewer",
+      ...guest,
+      context: { hour: "10" },
+    });
+    expect(result.allowed).toBe(false);
+    expect(result.missingContext).toBeUndefined();
+    expect(result.triedPaths?.map((p) => p.failureReason)).toContainEqual(
+      'Caveat "business_hours" parameter "hour" must be a number'
+    );
+  });
+
+  test("an unconditional branch grants without the missing context", async () => {
+    const t = await seedCaveatedViewer();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "resource",
+      relations: [
+        { name: "viewer", targetTypes: [{ type: "user" }] },
+        { name: "owner", targetTypes: [{ type: "user" }] },
+      ],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "resource",
+      permission: "view",
+      expression: "viewer | owner",
+    });
+    const can = (action: string) => t.query(api.permissions.can, { ...studio, action, ...guest });
+
+    expect((await can("view")).missingContext).toEqual(["hour"]);
+    await t.mutation(api.tuples.write, { ...studio, relation: "owner", ...guest });
+    const granted = await can("view");
+    expect(granted.allowed).toBe(true);
+    expect(granted.missingContext).toBeUndefined();
+  });
+
+  test("an exclusion with a conditional excluded side is conditional", async () => {
+    const t = await seedCaveatedViewer();
+    await t.mutation(api.objectTypes.registerObjectType, {
+      name: "resource",
+      relations: [
+        { name: "viewer", targetTypes: [{ type: "user" }] },
+        { name: "member", targetTypes: [{ type: "user" }] },
+      ],
+    });
+    await t.mutation(api.rules.definePermission, {
+      objectType: "resource",
+      permission: "book",
+      expression: "member - viewer",
+    });
+    await t.mutation(api.tuples.write, { ...studio, relation: "member", ...guest });
+    const can = (context?: Record<string, unknown>) =>
+      t.query(api.permissions.can, { ...studio, action: "book", ...guest, context });
+
+    expect((await can()).missingContext).toEqual(["hour"]);
+    expect((await can({ hour: 10 })).allowed).toBe(false);
+    expect((await can({ hour: 20 })).allowed).toBe(true);
+  });
+});
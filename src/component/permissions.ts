@@ -1,5 +1,11 @@
 import { v, type Infer } from "convex/values";
+import { paginationOptsValidator, paginationResultValidator } from "convex/server";
 import { query } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { rulesToExpression, type ExpressionNode } from "./dsl.js";
+import { loadRuleExpression } from "./rules.js";
+import { WILDCARD_SUBJECT_ID, isExpired } from "./tuples.js";
+import { checkTupleCaveat, type TupleCaveatResult } from "./caveats.js";
 
 /**
  * Permission Checks (Zanzibar-style Recursive Traversal)
@@ -19,8 +25,12 @@ import { query } from "./_generated/server.js";
  *      - Find booking's parent relation → resource:studio-a
  *      - Recursively: can(daniel, edit, resource:studio-a)
  *   4. Return true if any path succeeds
+ *
+ * Rules are stored as expression trees: unions ("a | b"), intersections
+ * ("a & b") and exclusions ("a - b") can be nested with parentheses.
  */
 
+// Default traversal depth limit; callers can override it per check
 const MAX_DEPTH = 10;
 
 /**
@@ -52,17 +62,59 @@ export const pathResultValidator = v.object({
   matchedRule: v.optional(v.string()),
   path: v.optional(v.array(traversalNodeValidator)),
   triedPaths: v.optional(v.array(triedPathValidator)),
+  // Set when the result is conditional: a caveat needs these context
+  // fields before access can be decided (allowed is false meanwhile)
+  missingContext: v.optional(v.array(v.string())),
+});
+
+/**
+ * Validator for nodes of an expanded permission tree (see `expand`)
+ *
+ * Stored flat like rule expressions: parents reference children by index.
+ */
+export const expandNodeValidator = v.object({
+  kind: v.union(
+    v.literal("permission"), // object#permission; one child: its expression
+    v.literal("union"),
+    v.literal("intersection"),
+    v.literal("exclusion"), // children: [base, excluded]
+    v.literal("relation"), // direct relation on the object; children: its subjects
+    v.literal("computed"), // relation->permission hop; children: one per related object
+    v.literal("subject") // leaf: a subject holding the relation directly
+  ),
+  objectType: v.optional(v.string()),
+  objectId: v.optional(v.string()),
+  permission: v.optional(v.string()),
+  relation: v.optional(v.string()),
+  expression: v.optional(v.string()),
+  subjectType: v.optional(v.string()),
+  subjectId: v.optional(v.string()),
+  caveatName: v.optional(v.string()),
+  expiresAt: v.optional(v.number()),
+  children: v.optional(v.array(v.number())),
+  // Set on permission nodes that weren't expanded further
+  truncated: v.optional(v.union(v.literal("cycle"), v.literal("depth"))),
+});
+
+/** Validator for a flattened expanded permission tree */
+export const expandTreeValidator = v.object({
+  root: v.number(),
+  nodes: v.array(expandNodeValidator),
 });
 
 // Derive TypeScript types from validators
 export type TraversalNode = Infer<typeof traversalNodeValidator>;
 export type TriedPath = Infer<typeof triedPathValidator>;
 export type PathResult = Infer<typeof pathResultValidator>;
+export type ExpandNode = Infer<typeof expandNodeValidator>;
+export type ExpandTree = Infer<typeof expandTreeValidator>;
 
 /**
  * Check if a subject can perform an action/permission on an object
  *
- * This is the main API for permission checks.
+ * This is the main API for permission checks. Pass `subjectRelation` to
+ * check a userset ("can every member of team:eng view x?"): access then has
+ * to be granted to the userset itself, e.g. by (x, viewer, team:eng#member).
  *
  * @example
  * // Can daniel cancel booking 123?
@@ -83,14 +135,19 @@ export const can = query({
     action: v.string(), // The permission to check (e.g., "view", "edit", "cancel")
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()), // Userset subject: "team:eng#member"
+    context: v.optional(v.record(v.string(), v.any())), // Values for caveats
+    maxDepth: v.optional(v.number()), // Traversal depth limit (default 10)
   },
   returns: v.object({
     allowed: v.boolean(),
     reason: v.optional(v.string()),
     path: v.optional(v.array(v.string())), // Debug: traversal path taken
+    missingContext: v.optional(v.array(v.string())), // Set when the result is conditional
   }),
   handler: async (ctx, args) => {
-    return await canRecursive(ctx, args, 0, []);
+    assertValidMaxDepth(args.maxDepth);
+    return await canRecursive(ctx, { ...args, cache: createEvaluationCache() }, 0, []);
   },
 });
 
@@ -126,13 +183,393 @@ export const canWithPath = query({
     action: v.string(),
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
+    context: v.optional(v.record(v.string(), v.any())),
+    maxDepth: v.optional(v.number()),
   },
   returns: pathResultValidator,
   handler: async (ctx, args) => {
-    return await canRecursiveWithPath(ctx, args, 0, [], []);
+    assertValidMaxDepth(args.maxDepth);
+    return await canRecursiveWithPath(ctx, { ...args, cache: createEvaluationCache() }, 0, [], []);
+  },
+});
+
+/**
+ * Check many permissions in one query
+ *
+ * Results are returned in the same order as `checks`. All checks share one
+ * evaluation cache, so authorizing a list of rows under the same parent
+ * reads the parent's rules and tuples once.
+ *
+ * @example
+ * const results = await zanvex.canMany(ctx, bookings.map((b) => ({
+ *   subject: { type: "user", id: "daniel" },
+ *   action: "cancel",
+ *   object: { type: "booking", id: b._id },
+ * })));
+ */
+export const canMany = query({
+  args: {
+    checks: v.array(
+      v.object({
+        objectType: v.string(),
+        objectId: v.string(),
+        action: v.string(),
+        subjectType: v.string(),
+        subjectId: v.string(),
+        subjectRelation: v.optional(v.string()),
+        context: v.optional(v.record(v.string(), v.any())),
+      })
+    ),
+    maxDepth: v.optional(v.number()),
+  },
+  returns: v.array(
+    v.object({
+      allowed: v.boolean(),
+      reason: v.optional(v.string()),
+      path: v.optional(v.array(v.string())),
+      missingContext: v.optional(v.array(v.string())),
+    })
+  ),
+  handler: async (ctx, { checks, maxDepth }) => {
+    assertValidMaxDepth(maxDepth);
+    const cache = createEvaluationCache();
+
+    return await Promise.all(
+      checks.map((check) => canRecursive(ctx, { ...check, maxDepth, cache }, 0, []))
+    );
   },
 });
 
+const readStatsValidator = v.object({ queries: v.number(), documents: v.number() });
+
+/**
+ * Measure the database reads of a batch of checks, with and without the
+ * evaluation cache
+ *
+ * Runs the checks as `canMany` does (one shared cache), then again with
+ * nothing cached: each rule and tuple list is re-read wherever the
+ * traversal reaches it and no sub-result is reused. For benchmarking the
+ * cache on a real graph; authorize with `canMany`.
+ */
+export const measureReads = query({
+  args: {
+    checks: v.array(
+      v.object({
+        objectType: v.string(),
+        objectId: v.string(),
+        action: v.string(),
+        subjectType: v.string(),
+        subjectId: v.string(),
+        subjectRelation: v.optional(v.string()),
+        context: v.optional(v.record(v.string(), v.any())),
+      })
+    ),
+    maxDepth: v.optional(v.number()),
+  },
+  returns: v.object({
+    allowed: v.array(v.boolean()),
+    cached: readStatsValidator,
+    uncached: readStatsValidator,
+  }),
+  handler: async (ctx, { checks, maxDepth }) => {
+    assertValidMaxDepth(maxDepth);
+    const cache = createEvaluationCache();
+    const results = await Promise.all(
+      checks.map((check) => canRecursive(ctx, { ...check, maxDepth, cache }, 0, []))
+    );
+
+    const uncached = createEvaluationCache({ memoize: false });
+    for (const check of checks) {
+      await canRecursive(ctx, { ...check, maxDepth, cache: uncached }, 0, []);
+    }
+
+    return {
+      allowed: results.map((r) => r.allowed),
+      cached: cache.reads,
+      uncached: uncached.reads,
+    };
+  },
+});
+
+/**
+ * Arguments threaded through the recursive evaluation
+ */
+type CheckArgs = {
+  objectType: string;
+  objectId: string;
+  action: string;
+  subjectType: string;
+  subjectId: string;
+  // Set when the subject is a userset ("team:eng#member"): only tuples
+  // granting that userset match, not its members' own tuples
+  subjectRelation?: string;
+  context?: Record<string, unknown>;
+  maxDepth?: number;
+  // Checks in progress on the current branch ("type:id#permission"),
+  // used to detect cycles such as folder:a parent folder:b parent folder:a
+  visiting?: string[];
+  cache: EvaluationCache;
+};
+
+function assertValidMaxDepth(maxDepth: number | undefined) {
+  if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+    throw new Error(`maxDepth must be a non-negative integer, got ${maxDepth}`);
+  }
+}
+
+/**
+ * Evaluation Cache
+ *
+ * Lives for one query and is shared by every sub-check in it, so each
+ * permission rule and tuple list is read once and shared subgraphs (e.g.
+ * the owner org of many resources) are evaluated once.
+ *
+ * Sub-results are stored once complete, never while in flight: parallel
+ * branches waiting on each other's pending results could deadlock on
+ * cyclic graphs.
+ */
+type EvaluationCache = {
+  rules: Map<string, Promise<Doc<"permission_rules"> | null>>;
+  tuples: Map<string, Promise<Doc<"tuples">[]>>;
+  results: Map<string, CachedResult>;
+  // Count of cycle/depth cutoffs so far. A denied result whose evaluation
+  // overlapped a cutoff may only hold on its own branch, so isn't cached.
+  cutoffs: number;
+  // False to re-read and re-evaluate everything (measureReads baseline)
+  memoize: boolean;
+  reads: ReadStats;
+};
+
+/**
+ * Database reads made by an evaluation: index queries issued and
+ * documents they returned
+ */
+type ReadStats = { queries: number; documents: number };
+
+type CachedResult = {
+  result: PathResult;
+  prefix: TraversalNode[];
+  depth: number;
+};
+
+function createEvaluationCache(options?: { memoize?: boolean }): EvaluationCache {
+  return {
+    rules: new Map(),
+    tuples: new Map(),
+    results: new Map(),
+    cutoffs: 0,
+    memoize: options?.memoize ?? true,
+    reads: { queries: 0, documents: 0 },
+  };
+}
+
+/**
+ * Record a database read in the cache's read stats
+ */
+function countRead<T>(
+  cache: EvaluationCache,
+  read: Promise<T>
+): Promise<T> {
+  cache.reads.queries++;
+  return read.then((docs) => {
+    cache.reads.documents += Array.isArray(docs) ? docs.length : docs ? 1 : 0;
+    return docs;
+  });
+}
+
+/**
+ * Look up the permission rule for an object type/permission (cached)
+ */
+function loadRule(
+  ctx: any,
+  cache: EvaluationCache,
+  objectType: string,
+  permission: string
+): Promise<Doc<"permission_rules"> | null> {
+  const key = `${objectType}#${permission}`;
+  let rule = cache.memoize ? cache.rules.get(key) : undefined;
+  if (!rule) {
+    rule = countRead(
+      cache,
+      ctx.db
+        .query("permission_rules")
+        .withIndex("by_type_permission", (q: any) =>
+          q.eq("objectType", objectType).eq("permission", permission)
+        )
+        .first() as Promise<Doc<"permission_rules"> | null>
+    );
+    cache.rules.set(key, rule);
+  }
+  return rule;
+}
+
+/**
+ * Load the unexpired tuples for an object/relation (cached)
+ */
+async function loadObjectTuples(
+  ctx: any,
+  cache: EvaluationCache,
+  objectType: string,
+  objectId: string,
+  relation: string
+): Promise<Doc<"tuples">[]> {
+  const key = `${objectType}:${objectId}#${relation}`;
+  let tuples = cache.memoize ? cache.tuples.get(key) : undefined;
+  if (!tuples) {
+    tuples = countRead(
+      cache,
+      ctx.db
+        .query("tuples")
+        .withIndex("by_object", (q: any) =>
+          q.eq("objectType", objectType).eq("objectId", objectId).eq("relation", relation)
+        )
+        .collect() as Promise<Doc<"tuples">[]>
+    );
+    cache.tuples.set(key, tuples);
+  }
+  const now = Date.now();
+  return (await tuples).filter((t) => !isExpired(t, now));
+}
+
+/**
+ * Load the unexpired userset tuples for an object/relation (cached)
+ *
+ * Range-reads only tuples with a `subjectRelation`, so plain members of a
+ * large relation are neither read nor subscribed to.
+ */
+async function loadUsersetTuples(
+  ctx: any,
+  cache: EvaluationCache,
+  objectType: string,
+  objectId: string,
+  relation: string
+): Promise<Doc<"tuples">[]> {
+  const key = `${objectType}:${objectId}#${relation}#usersets`;
+  let tuples = cache.memoize ? cache.tuples.get(key) : undefined;
+  if (!tuples) {
+    tuples = countRead(
+      cache,
+      ctx.db
+        .query("tuples")
+        .withIndex("by_object_userset", (q: any) =>
+          q
+            .eq("objectType", objectType)
+            .eq("objectId", objectId)
+            .eq("relation", relation)
+            .gte("subjectRelation", "")
+        )
+        .collect() as Promise<Doc<"tuples">[]>
+    );
+    cache.tuples.set(key, tuples);
+  }
+  const now = Date.now();
+  return (await tuples).filter((t) => !isExpired(t, now));
+}
+
+/**
+ * Re-anchor a cached result onto the branch that reuses it
+ *
+ * Cached paths start with the prefix of the branch that computed them;
+ * swap in the new prefix and shift depths accordingly.
+ */
+function rebaseResult(
+  cached: CachedResult,
+  prefix: TraversalNode[],
+  depth: number
+): PathResult {
+  const rebase = (nodes: TraversalNode[] | undefined) =>
+    nodes && [
+      ...prefix,
+      ...nodes.slice(cached.prefix.length).map((node) => ({
+        ...node,
+        depth: node.depth - cached.depth + depth,
+      })),
+    ];
+
+  return {
+    ...cached.result,
+    path: rebase(cached.result.path),
+    triedPaths: cached.result.triedPaths?.map((tried) => ({
+      ...tried,
+      partialPath: rebase(tried.partialPath),
+    })),
+  };
+}
+
+/**
+ * Evaluate candidates in parallel, resolving as soon as one grants access
+ *
+ * `winner` is the index of the first candidate to be allowed, or -1 once
+ * every candidate has been denied (all results are then available for
+ * failure reporting).
+ */
+function firstAllowed<T>(
+  items: T[],
+  evaluate: (item: T) => Promise<PathResult>
+): Promise<{ winner: number; results: PathResult[] }> {
+  return new Promise((resolve, reject) => {
+    const results: PathResult[] = new Array(items.length);
+    let pending = items.length;
+
+    if (pending === 0) {
+      resolve({ winner: -1, results });
+      return;
+    }
+
+    items.forEach((item, index) => {
+      evaluate(item).then((result) => {
+        results[index] = result;
+        if (result.allowed) {
+          resolve({ winner: index, results });
+        } else if (--pending === 0) {
+          resolve({ winner: -1, results });
+        }
+      }, reject);
+    });
+  });
+}
+
+/**
+ * Combine denied (or conditional) results into one
+ *
+ * Conditional if any result is, otherwise denied with `reason`.
+ */
+function combineFailures(results: PathResult[], reason: string): PathResult {
+  const missing = results.flatMap((r) => r.missingContext ?? []);
+  const triedPaths = results.flatMap((r) => r.triedPaths ?? []);
+
+  return missing.length > 0
+    ? conditionalResult(missing, triedPaths)
+    : { allowed: false, reason, triedPaths };
+}
+
+/**
+ * The depth/cycle cutoffs recorded in a result's tried paths
+ *
+ * A denial with cutoffs only means the search stopped early, not that
+ * access doesn't exist.
+ */
+function cutoffPaths(result: PathResult): TriedPath[] {
+  return (result.triedPaths ?? []).filter(
+    (tried) => tried.rulePart === "cycle-check" || tried.rulePart === "depth-check"
+  );
+}
+
+/**
+ * Evaluate a single check with a fresh cache
+ *
+ * Entry point for other modules (e.g. `check.check`) that need the same
+ * answer as `can`.
+ */
+export async function evaluateCheck(
+  ctx: any,
+  args: Omit<CheckArgs, "cache" | "visiting">
+): Promise<PathResult> {
+  assertValidMaxDepth(args.maxDepth);
+  return await canRecursiveWithPath(ctx, { ...args, cache: createEvaluationCache() }, 0, [], []);
+}
+
 /**
  * Internal recursive implementation of permission checking
  *
@@ -141,16 +578,10 @@ export const canWithPath = query({
  */
 async function canRecursive(
   ctx: any,
-  args: {
-    objectType: string;
-    objectId: string;
-    action: string;
-    subjectType: string;
-    subjectId: string;
-  },
+  args: CheckArgs,
   depth: number,
   path: string[]
-): Promise<{ allowed: boolean; reason?: string; path?: string[] }> {
+): Promise<{ allowed: boolean; reason?: string; path?: string[]; missingContext?: string[] }> {
   // Use the full implementation and simplify the result
   const result = await canRecursiveWithPath(ctx, args, depth, [], []);
 
@@ -163,6 +594,7 @@ async function canRecursive(
     allowed: result.allowed,
     reason: result.reason,
     path: simplePath,
+    missingContext: result.missingContext,
   };
 }
 
@@ -173,29 +605,46 @@ async function canRecursive(
  */
 async function canRecursiveWithPath(
   ctx: any,
-  args: {
-    objectType: string;
-    objectId: string;
-    action: string;
-    subjectType: string;
-    subjectId: string;
-  },
+  args: CheckArgs,
   depth: number,
   path: TraversalNode[],
   triedPaths: TriedPath[]
 ): Promise<PathResult> {
-  // Prevent infinite loops
-  if (depth > MAX_DEPTH) {
+  const { cache } = args;
+
+  // Prevent runaway traversal on deep (acyclic) graphs
+  const maxDepth = args.maxDepth ?? MAX_DEPTH;
+  if (depth > maxDepth) {
+    cache.cutoffs++;
     return {
       allowed: false,
       reason: "Max traversal depth exceeded",
       triedPaths: [{
         rulePart: "depth-check",
-        failureReason: `Exceeded MAX_DEPTH=${MAX_DEPTH}`,
+        failureReason: `Exceeded maxDepth=${maxDepth}`,
+        partialPath: path
+      }]
+    };
+  }
+
+  // Short-circuit cycles: this check is already in progress further up the
+  // branch, so following it again can't grant anything new
+  const key = `${args.objectType}:${args.objectId}#${args.action}`;
+  const visiting = args.visiting ?? [];
+  if (visiting.includes(key)) {
+    cache.cutoffs++;
+    const cycle = [...visiting.slice(visiting.indexOf(key)), key].join(" -> ");
+    return {
+      allowed: false,
+      reason: `Cycle detected: ${cycle}`,
+      triedPaths: [{
+        rulePart: "cycle-check",
+        failureReason: `Cycle detected: ${cycle}`,
         partialPath: path
       }]
     };
   }
+  args = { ...args, visiting: [...visiting, key] };
 
   // Only add current node for the initial target object (when path is empty)
   // For recursive calls, the node was already added as a relationNode by the parent
@@ -208,169 +657,498 @@ async function canRecursiveWithPath(
       }]
     : path;
 
+  // Reuse a result computed elsewhere in this query. Grants are only
+  // reused where at least as much depth budget was left.
+  const subject = `${args.subjectType}:${args.subjectId}${args.subjectRelation ? `#${args.subjectRelation}` : ""}`;
+  const resultKey = `${key}@${subject}${args.context ? JSON.stringify(args.context) : ""}`;
+  const cached = cache.memoize ? cache.results.get(resultKey) : undefined;
+  if (cached && (!cached.result.allowed || depth <= cached.depth)) {
+    return rebaseResult(cached, currentPath, depth);
+  }
+
+  const cutoffsBefore = cache.cutoffs;
+  const result = await evaluatePermission(ctx, args, depth, currentPath);
+
+  if (result.allowed || cache.cutoffs === cutoffsBefore) {
+    cache.results.set(resultKey, { result, prefix: currentPath, depth });
+  }
+
+  if (!result.allowed) {
+    triedPaths.push(...(result.triedPaths ?? []));
+    return { ...result, triedPaths };
+  }
+
+  return result;
+}
+
+/**
+ * Evaluate a permission on an object: its rule if one is defined,
+ * otherwise a direct relation of the same name
+ */
+async function evaluatePermission(
+  ctx: any,
+  args: CheckArgs,
+  depth: number,
+  currentPath: TraversalNode[]
+): Promise<PathResult> {
   // 1. Look up permission rule
-  const rule = await ctx.db
-    .query("permission_rules")
-    .withIndex("by_type_permission", (q: any) =>
-      q.eq("objectType", args.objectType).eq("permission", args.action)
-    )
-    .first();
+  const rule = await loadRule(ctx, args.cache, args.objectType, args.action);
 
   // 2. No rule? Default to direct relation check
   if (!rule) {
-    const direct = await checkDirectTuple(ctx, {
-      objectType: args.objectType,
-      objectId: args.objectId,
-      relation: args.action,
-      subjectType: args.subjectType,
-      subjectId: args.subjectId,
-    });
-
-    return {
-      allowed: direct,
-      reason: direct
-        ? `Direct ${args.action} relation`
-        : `No ${args.action} relation found`,
-      matchedRule: direct ? args.action : undefined,
-      path: direct ? [...currentPath, {
-        nodeType: args.subjectType,
-        nodeId: args.subjectId,
-        relation: args.action,
-        depth: depth + 1
-      }] : undefined,
-      triedPaths: direct ? undefined : [{
-        rulePart: args.action,
-        failureReason: "No matching tuple found",
-        partialPath: currentPath
-      }]
-    };
+    return await evaluateDirectRelation(ctx, args, args.action, depth, currentPath);
   }
 
-  // 3. Evaluate rules (OR logic)
-  for (const part of rule.rules) {
-    if (part.type === "direct") {
-      const hasTuple = await checkDirectTuple(ctx, {
-        objectType: args.objectType,
-        objectId: args.objectId,
-        relation: part.relation!,
-        subjectType: args.subjectType,
-        subjectId: args.subjectId,
-      });
+  // 3. Evaluate the rule's expression tree
+  return await evaluateNode(ctx, args, loadRuleExpression(rule), depth, currentPath);
+}
+
+/**
+ * Evaluate one node of a permission expression tree
+ *
+ * - union: succeeds on the first child that grants access
+ * - intersection: succeeds only if every child does; on failure the
+ *   tried path names the failing branch
+ * - exclusion: succeeds if the base does and the excluded side doesn't;
+ *   the reason says when access was revoked by the exclusion rather than
+ *   never granted. If the excluded side was cut off by `maxDepth` or a
+ *   cycle it may not have been found, so access is denied (fail closed)
+ *
+ * Results can also be conditional (`missingContext` set): a caveat could
+ * not be evaluated for lack of context. Conditional results combine like
+ * unknowns in three-valued logic, e.g. `allowed | conditional` is allowed
+ * but `denied | conditional` stays conditional.
+ */
+async function evaluateNode(
+  ctx: any,
+  args: CheckArgs,
+  node: ExpressionNode,
+  depth: number,
+  currentPath: TraversalNode[]
+): Promise<PathResult> {
+  switch (node.type) {
+    case "direct":
+    case "computed":
+      return await evaluateRelationNode(ctx, args, node, depth, currentPath);
+
+    case "union": {
+      const results: PathResult[] = [];
+
+      // Sequential so the earliest matching branch is reported
+      for (const child of node.children) {
+        const result = await evaluateNode(ctx, args, child, depth, currentPath);
+
+        if (result.allowed) {
+          return result;
+        }
+        results.push(result);
+      }
+
+      return combineFailures(results, "No matching rule granted access");
+    }
+
+    case "intersection": {
+      const rulePart = rulesToExpression(node);
+      const conditional: PathResult[] = [];
+      let firstPath: TraversalNode[] | undefined;
+
+      for (const child of node.children) {
+        const result = await evaluateNode(ctx, args, child, depth, currentPath);
+        const branch = rulesToExpression(child);
+
+        if (!result.allowed && !result.missingContext) {
+          return {
+            allowed: false,
+            reason: `Intersection branch ${branch} failed`,
+            triedPaths: [{
+              rulePart,
+              failureReason: `Intersection branch ${branch} failed: ${result.reason}`,
+              partialPath: result.triedPaths?.[0]?.partialPath ?? currentPath
+            }, ...cutoffPaths(result)]
+          };
+        }
+        if (result.missingContext) {
+          conditional.push(result);
+        }
+        firstPath = firstPath ?? result.path;
+      }
+
+      if (conditional.length > 0) {
+        return combineFailures(conditional, `Intersection ${rulePart} is conditional`);
+      }
+
+      return {
+        allowed: true,
+        reason: `All of ${rulePart}`,
+        matchedRule: rulePart,
+        path: firstPath
+      };
+    }
+
+    case "exclusion": {
+      const granted = await evaluateNode(ctx, args, node.base, depth, currentPath);
+
+      if (!granted.allowed && !granted.missingContext) {
+        return granted;
+      }
+
+      const excluded = await evaluateNode(ctx, args, node.excluded, depth, currentPath);
 
-      if (hasTuple) {
+      if (excluded.allowed) {
         return {
-          allowed: true,
-          reason: `Direct ${part.relation} relation`,
-          matchedRule: part.relation!,
-          path: [...currentPath, {
-            nodeType: args.subjectType,
-            nodeId: args.subjectId,
-            relation: part.relation!,
-            depth: depth + 1
+          allowed: false,
+          reason: `Denied by exclusion: ${excluded.matchedRule}`,
+          triedPaths: [{
+            rulePart: rulesToExpression(node),
+            failureReason: granted.allowed
+              ? `Granted by ${granted.matchedRule} but excluded by ${excluded.matchedRule}`
+              : `Excluded by ${excluded.matchedRule}`,
+            partialPath: excluded.path
           }]
         };
-      } else {
-        triedPaths.push({
-          rulePart: part.relation!,
-          failureReason: "No matching tuple found",
-          partialPath: currentPath
-        });
-      }
-    } else if (part.type === "computed") {
-      // Find related objects via sourceRelation
-      const related = await ctx.db
-        .query("tuples")
-        .withIndex("by_object", (q: any) =>
-          q
-            .eq("objectType", args.objectType)
-            .eq("objectId", args.objectId)
-            .eq("relation", part.sourceRelation)
-        )
-        .collect();
-
-      if (related.length === 0) {
-        triedPaths.push({
-          rulePart: `${part.sourceRelation}->${part.targetPermission}`,
-          failureReason: `No ${part.sourceRelation} relation found`,
-          partialPath: currentPath
-        });
-        continue;
       }
 
-      // Try each related object
-      for (const rel of related) {
-        const relationNode: TraversalNode = {
-          nodeType: rel.subjectType,
-          nodeId: rel.subjectId,
-          relation: part.sourceRelation,
-          depth: depth + 1
+      // Not finding the excluded side isn't proof it doesn't hold
+      const cutoffs = cutoffPaths(excluded);
+      if (cutoffs.length > 0) {
+        const failureReason = `Exclusion ${rulesToExpression(node.excluded)} could not be fully evaluated`;
+        return {
+          allowed: false,
+          reason: `Denied: ${failureReason}`,
+          triedPaths: [{ rulePart: rulesToExpression(node), failureReason, partialPath: currentPath }, ...cutoffs]
         };
+      }
 
-        const result = await canRecursiveWithPath(
-          ctx,
-          {
-            objectType: rel.subjectType,
-            objectId: rel.subjectId,
-            action: part.targetPermission!,
-            subjectType: args.subjectType,
-            subjectId: args.subjectId,
-          },
-          depth + 1,
-          [...currentPath, relationNode],
-          []
+      if (granted.missingContext || excluded.missingContext) {
+        return conditionalResult(
+          [...(granted.missingContext ?? []), ...(excluded.missingContext ?? [])],
+          [...(granted.triedPaths ?? []), ...(excluded.triedPaths ?? [])]
         );
-
-        if (result.allowed) {
-          return {
-            allowed: true,
-            reason: `${part.sourceRelation}->${part.targetPermission}`,
-            matchedRule: `${part.sourceRelation}->${part.targetPermission}`,
-            path: result.path
-          };
-        } else {
-          triedPaths.push({
-            rulePart: `${part.sourceRelation}->${part.targetPermission}`,
-            failureReason: result.reason,
-            partialPath: result.triedPaths?.[0]?.partialPath
-          });
-        }
       }
+
+      return granted;
     }
   }
+}
 
+/**
+ * Build a conditional result: access depends on context that wasn't given
+ */
+function conditionalResult(missing: string[], triedPaths: TriedPath[]): PathResult {
+  const missingContext = [...new Set(missing)];
   return {
     allowed: false,
-    reason: "No matching rule granted access",
+    reason: `Conditional: missing context ${missingContext.join(", ")}`,
+    missingContext,
     triedPaths
   };
 }
 
 /**
- * Check if a direct relation tuple exists
+ * Follow a tuple to another object and check a permission there
+ *
+ * The tuple's own caveat must hold as well: if either side is conditional
+ * the result is conditional on the union of their missing context.
  */
-async function checkDirectTuple(
+async function evaluateThroughTuple(
   ctx: any,
+  args: CheckArgs,
+  tuple: Doc<"tuples">,
+  permission: string,
+  rulePart: string,
+  node: TraversalNode,
+  depth: number,
+  currentPath: TraversalNode[]
+): Promise<PathResult> {
+  const caveat = await checkTupleCaveat(ctx, tuple, args.context);
+  if (caveat.status === "unsatisfied" || caveat.status === "error") {
+    const failureReason = describeCaveatFailure(tuple, caveat);
+    return {
+      allowed: false,
+      reason: failureReason,
+      triedPaths: [{ rulePart, failureReason, partialPath: [...currentPath, node] }]
+    };
+  }
+
+  const result = await canRecursiveWithPath(
+    ctx,
+    {
+      ...args,
+      objectType: tuple.subjectType,
+      objectId: tuple.subjectId,
+      action: permission,
+    },
+    depth + 1,
+    [...currentPath, node],
+    []
+  );
+
+  if (result.allowed && caveat.status === "satisfied") {
+    return result;
+  }
+
+  const triedPath: TriedPath = {
+    rulePart,
+    failureReason: result.allowed ? describeCaveatFailure(tuple, caveat) : result.reason,
+    partialPath: result.triedPaths?.[0]?.partialPath ?? result.path
+  };
+
+  // Keep nested cycle/depth cutoffs visible to the caller
+  const cutoffs = cutoffPaths(result);
+
+  if (result.allowed || result.missingContext) {
+    return conditionalResult(
+      [...(caveat.status === "missing" ? caveat.missing : []), ...(result.missingContext ?? [])],
+      [triedPath, ...cutoffs]
+    );
+  }
+
+  return { allowed: false, reason: result.reason, triedPaths: [triedPath, ...cutoffs] };
+}
+
+/**
+ * Evaluate a direct or computed relation check
+ */
+async function evaluateRelationNode(
+  ctx: any,
+  args: CheckArgs,
+  node: Extract<ExpressionNode, { type: "direct" | "computed" }>,
+  depth: number,
+  currentPath: TraversalNode[]
+): Promise<PathResult> {
+  if (node.type === "direct") {
+    return await evaluateDirectRelation(ctx, args, node.relation, depth, currentPath);
+  }
+
+  const rulePart = `${node.sourceRelation}->${node.targetPermission}`;
+
+  // Find related objects via sourceRelation
+  const related = await loadObjectTuples(
+    ctx,
+    args.cache,
+    args.objectType,
+    args.objectId,
+    node.sourceRelation
+  );
+
+  if (related.length === 0) {
+    return {
+      allowed: false,
+      reason: `No ${node.sourceRelation} relation found`,
+      triedPaths: [{
+        rulePart,
+        failureReason: `No ${node.sourceRelation} relation found`,
+        partialPath: currentPath
+      }]
+    };
+  }
+
+  // Try every related object in parallel; the first grant wins
+  const { winner, results } = await firstAllowed(related, (rel) =>
+    evaluateThroughTuple(
+      ctx,
+      args,
+      rel,
+      node.targetPermission,
+      rulePart,
+      {
+        nodeType: rel.subjectType,
+        nodeId: rel.subjectId,
+        relation: node.sourceRelation,
+        depth: depth + 1
+      },
+      depth,
+      currentPath
+    )
+  );
+
+  if (winner >= 0) {
+    return {
+      allowed: true,
+      reason: rulePart,
+      matchedRule: rulePart,
+      path: results[winner].path
+    };
+  }
+
+  return combineFailures(results, `No ${node.sourceRelation} granted ${node.targetPermission}`);
+}
+
+/**
+ * Evaluate a direct relation on the object
+ *
+ * Succeeds if the subject holds the relation itself, or through a userset
+ * tuple: (resource:x, viewer, org:acme#member_of) grants `viewer` to anyone
+ * who has `member_of` on org:acme (evaluated recursively, so usersets may
+ * reference permissions with rules as well as plain relations).
+ * Usersets are only read when no direct tuple grants access.
+ */
+async function evaluateDirectRelation(
+  ctx: any,
+  args: CheckArgs,
+  relation: string,
+  depth: number,
+  currentPath: TraversalNode[]
+): Promise<PathResult> {
+  const tuples = await findDirectTuples(ctx, args.cache, {
+    objectType: args.objectType,
+    objectId: args.objectId,
+    relation,
+    subjectType: args.subjectType,
+    subjectId: args.subjectId,
+    subjectRelation: args.subjectRelation,
+  });
+
+  const results: PathResult[] = [];
+
+  for (const tuple of tuples) {
+    const caveat = await checkTupleCaveat(ctx, tuple, args.context);
+
+    if (caveat.status === "satisfied") {
+      return {
+        allowed: true,
+        reason: tuple.subjectId === WILDCARD_SUBJECT_ID
+          ? `Direct ${relation} relation (public: ${args.subjectType}:${WILDCARD_SUBJECT_ID})`
+          : `Direct ${relation} relation`,
+        matchedRule: relation,
+        path: [...currentPath, {
+          nodeType: args.subjectType,
+          nodeId: args.subjectId,
+          relation,
+          depth: depth + 1
+        }]
+      };
+    }
+
+    const triedPath: TriedPath = {
+      rulePart: relation,
+      failureReason: describeCaveatFailure(tuple, caveat),
+      partialPath: currentPath
+    };
+    results.push(
+      caveat.status === "missing"
+        ? conditionalResult(caveat.missing, [triedPath])
+        : { allowed: false, reason: triedPath.failureReason, triedPaths: [triedPath] }
+    );
+  }
+
+  if (tuples.length === 0) {
+    results.push({
+      allowed: false,
+      reason: "No matching tuple found",
+      triedPaths: [{
+        rulePart: relation,
+        failureReason: "No matching tuple found",
+        partialPath: currentPath
+      }]
+    });
+  }
+
+  // Only on a direct miss: expand usersets, tuples whose subject is "type:id#relation"
+  const usersets = await loadUsersetTuples(
+    ctx,
+    args.cache,
+    args.objectType,
+    args.objectId,
+    relation
+  );
+
+  const { winner, results: usersetResults } = await firstAllowed(usersets, (userset) =>
+    evaluateThroughTuple(
+      ctx,
+      args,
+      userset,
+      userset.subjectRelation!,
+      `${relation} (${userset.subjectType}:${userset.subjectId}#${userset.subjectRelation})`,
+      {
+        nodeType: userset.subjectType,
+        nodeId: userset.subjectId,
+        relation,
+        depth: depth + 1
+      },
+      depth,
+      currentPath
+    )
+  );
+
+  if (winner >= 0) {
+    const userset = usersets[winner];
+    return {
+      allowed: true,
+      reason: `${relation} via userset ${userset.subjectType}:${userset.subjectId}#${userset.subjectRelation}`,
+      matchedRule: relation,
+      path: usersetResults[winner].path
+    };
+  }
+
+  // A tuple that exists but whose caveat failed explains more than "not found"
+  return combineFailures(
+    [...results, ...usersetResults],
+    tuples.length > 0 ? results[0].reason : `No ${relation} relation found`
+  );
+}
+
+/**
+ * Explain why a tuple's caveat didn't grant access
+ */
+function describeCaveatFailure(tuple: Doc<"tuples">, caveat: TupleCaveatResult): string {
+  switch (caveat.status) {
+    case "missing":
+      return `Caveat ${tuple.caveatName} needs context: ${caveat.missing.join(", ")}`;
+    case "unsatisfied":
+      return `Caveat ${tuple.caveatName} not satisfied`;
+    case "error":
+      return caveat.message;
+    default:
+      return "Caveat satisfied";
+  }
+}
+
+/**
+ * Find the direct relation tuples that may grant access
+ *
+ * Matches the exact subject (and subject relation, for a userset subject),
+ * then a public wildcard tuple for its type (subjectId "*"). Expired tuples are ignored; caveats are left to the
+ * caller.
+ */
+async function findDirectTuples(
+  ctx: any,
+  cache: EvaluationCache,
   args: {
     objectType: string;
     objectId: string;
     relation: string;
     subjectType: string;
     subjectId: string;
+    subjectRelation?: string;
   }
-): Promise<boolean> {
-  const tuple = await ctx.db
-    .query("tuples")
-    .withIndex("by_tuple", (q: any) =>
-      q
-        .eq("objectType", args.objectType)
-        .eq("objectId", args.objectId)
-        .eq("relation", args.relation)
-        .eq("subjectType", args.subjectType)
-        .eq("subjectId", args.subjectId)
-    )
-    .first();
+): Promise<Doc<"tuples">[]> {
+  const findTuple = async (subjectId: string): Promise<Doc<"tuples"> | null> => {
+    const tuple: Doc<"tuples"> | null = await countRead(
+      cache,
+      ctx.db
+        .query("tuples")
+        .withIndex("by_tuple", (q: any) =>
+          q
+            .eq("objectType", args.objectType)
+            .eq("objectId", args.objectId)
+            .eq("relation", args.relation)
+            .eq("subjectType", args.subjectType)
+            .eq("subjectId", subjectId)
+            .eq("subjectRelation", args.subjectRelation)
+        )
+        .first()
+    );
+
+    return tuple && !isExpired(tuple, Date.now()) ? tuple : null;
+  };
 
-  return !!tuple;
+  // Wildcards grant plain subjects of the type, not usersets
+  const candidates = [await findTuple(args.subjectId)];
+  if (args.subjectId !== WILDCARD_SUBJECT_ID && args.subjectRelation === undefined) {
+    candidates.push(await findTuple(WILDCARD_SUBJECT_ID));
+  }
+  return candidates.filter((t): t is Doc<"tuples"> => t !== null);
 }
 
 /**
@@ -427,7 +1205,9 @@ export const getPermissionsForObject = query({
       ...new Set([...standardPermissions, ...customPermissions]),
     ];
 
-    // Check each permission
+    // Check each permission (sharing one cache: most permissions of an
+    // object traverse the same parents)
+    const cache = createEvaluationCache();
     const results: Record<string, boolean> = {};
     const allowedActions: string[] = [];
 
@@ -440,6 +1220,7 @@ export const getPermissionsForObject = query({
           action: permission,
           subjectType: args.subjectType,
           subjectId: args.subjectId,
+          cache,
         },
         0,
         []
@@ -463,3 +1244,476 @@ export const getPermissionsForObject = query({
     };
   },
 });
+
+/**
+ * List the objects of a type a subject can perform an action on
+ *
+ * Walks the graph in reverse: starting at the subject (and the public
+ * wildcard of its type), follows `by_subject` edges up to the objects
+ * holding them, restricted to the relations that can contribute to the
+ * permission according to `permission_rules` plus memberships in objects
+ * referenced by usersets (team:eng#member). Every object of the
+ * requested type found that way is then verified with a regular check,
+ * so intersections, exclusions, caveats and expiry are honoured.
+ *
+ * Results are ordered by object id. Each page repeats the reverse walk,
+ * so prefer a few large pages over many small ones.
+ *
+ * @example
+ * // Which bookings can daniel cancel?
+ * const { page, isDone, continueCursor } = await zanvex.lookupResources(ctx, {
+ *   subject: { type: "user", id: "daniel" },
+ *   action: "cancel",
+ *   objectType: "booking",
+ * }, { numItems: 50, cursor: null });
+ */
+export const lookupResources = query({
+  args: {
+    subjectType: v.string(),
+    subjectId: v.string(),
+    action: v.string(),
+    objectType: v.string(),
+    context: v.optional(v.record(v.string(), v.any())),
+    maxDepth: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(v.string()),
+  handler: async (ctx, args) => {
+    assertValidMaxDepth(args.maxDepth);
+    const { numItems, cursor } = args.paginationOpts;
+
+    const rules = await ctx.db.query("permission_rules").collect();
+    const relations = grantingRelations(rules, args.action);
+
+    // 1. Reverse walk: collect candidate objects of the requested type.
+    // Nodes reached through a relation that doesn't grant the permission
+    // (e.g. team membership) are only expanded through their usersets,
+    // such as (resource:x, viewer, team:eng#member).
+    const candidates = new Set<string>();
+    const seen = new Set<string>();
+    let frontier: WalkNode[] = [{ type: args.subjectType, id: args.subjectId, usersetsOnly: false }];
+    if (args.subjectId !== WILDCARD_SUBJECT_ID) {
+      frontier.push({ type: args.subjectType, id: WILDCARD_SUBJECT_ID, usersetsOnly: false });
+    }
+
+    const now = Date.now();
+    for (let depth = 0; depth <= (args.maxDepth ?? MAX_DEPTH) && frontier.length > 0; depth++) {
+      const next: WalkNode[] = [];
+      const visit = (node: WalkNode) => {
+        const key = `${node.type}:${node.id}`;
+        if (seen.has(key) || (node.usersetsOnly && seen.has(`${key}#usersets`))) return;
+        seen.add(node.usersetsOnly ? `${key}#usersets` : key);
+        next.push(node);
+      };
+
+      for (const node of frontier) {
+        const edges = await ctx.db
+          .query("tuples")
+          .withIndex("by_subject", (q) =>
+            node.usersetsOnly
+              ? q.eq("subjectType", node.type).eq("subjectId", node.id).gte("subjectRelation", "")
+              : q.eq("subjectType", node.type).eq("subjectId", node.id)
+          )
+          .collect();
+
+        for (const edge of edges) {
+          if (isExpired(edge, now)) continue;
+
+          if (relations.has(edge.relation)) {
+            if (edge.objectType === args.objectType) {
+              candidates.add(edge.objectId);
+            }
+            visit({ type: edge.objectType, id: edge.objectId, usersetsOnly: false });
+          } else if (await hasUsersets(ctx, edge.objectType, edge.objectId)) {
+            visit({ type: edge.objectType, id: edge.objectId, usersetsOnly: true });
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    // 2. Verify candidates after the cursor, in id order, until the page is full
+    const remaining = [...candidates]
+      .sort()
+      .filter((objectId) => cursor === null || objectId > cursor);
+
+    const cache = createEvaluationCache();
+    const page: string[] = [];
+    let checked = 0;
+
+    while (page.length < numItems && checked < remaining.length) {
+      const batch = remaining.slice(checked, checked + numItems - page.length);
+      const results = await Promise.all(
+        batch.map((objectId) =>
+          canRecursive(
+            ctx,
+            {
+              objectType: args.objectType,
+              objectId,
+              action: args.action,
+              subjectType: args.subjectType,
+              subjectId: args.subjectId,
+              context: args.context,
+              maxDepth: args.maxDepth,
+              cache,
+            },
+            0,
+            []
+          )
+        )
+      );
+
+      batch.forEach((objectId, i) => {
+        if (results[i].allowed) page.push(objectId);
+      });
+      checked += batch.length;
+    }
+
+    const lastChecked = remaining[checked - 1];
+    return {
+      page,
+      isDone: checked >= remaining.length,
+      continueCursor: lastChecked ?? cursor ?? "",
+    };
+  },
+});
+
+/**
+ * An object reached by the `lookupResources` reverse walk
+ */
+type WalkNode = { type: string; id: string; usersetsOnly: boolean };
+
+/**
+ * Whether any userset tuple ("type:id#relation" subject) points at an object
+ */
+async function hasUsersets(ctx: any, type: string, id: string): Promise<boolean> {
+  const userset = await ctx.db
+    .query("tuples")
+    .withIndex("by_subject", (q: any) =>
+      q.eq("subjectType", type).eq("subjectId", id).gte("subjectRelation", "")
+    )
+    .first();
+  return userset !== null;
+}
+
+/**
+ * Relation names that can contribute to a permission
+ *
+ * Closure over the rule trees of every permission with that name, following
+ * direct relations and both sides of computed hops. Object types are ignored
+ * (a superset is fine: candidates are verified afterwards), as are the
+ * excluded sides of exclusions, which can only revoke access.
+ */
+function grantingRelations(rules: Doc<"permission_rules">[], permission: string): Set<string> {
+  const relations = new Set<string>();
+  const visited = new Set<string>();
+  const pending = [permission];
+
+  const visit = (node: ExpressionNode) => {
+    switch (node.type) {
+      case "direct":
+        pending.push(node.relation);
+        break;
+      case "computed":
+        relations.add(node.sourceRelation);
+        pending.push(node.targetPermission);
+        break;
+      case "union":
+      case "intersection":
+        node.children.forEach(visit);
+        break;
+      case "exclusion":
+        visit(node.base);
+        break;
+    }
+  };
+
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (visited.has(name)) continue;
+    visited.add(name);
+
+    // Without a rule the permission is itself a relation
+    relations.add(name);
+    for (const rule of rules) {
+      if (rule.permission === name) visit(loadRuleExpression(rule));
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * List every subject of a type that holds a permission on an object
+ *
+ * Unlike `listSubjects` (direct tuples of one relation), this expands the
+ * permission's rule tree: computed hops, usersets and wildcards. Candidates
+ * are collected by walking the tree forward from the object, then each is
+ * verified with a regular check, whose path is returned alongside it.
+ *
+ * A public wildcard grant is returned as subjectId "*".
+ *
+ * @example
+ * // Who can edit studio-a?
+ * const editors = await zanvex.lookupSubjects(ctx, {
+ *   object: { type: "resource", id: "studio-a" },
+ *   action: "edit",
+ *   subjectType: "user",
+ * });
+ * // → [{ subjectType: "user", subjectId: "alice", matchedRule: "owner->admin_of", path: [...] }]
+ */
+export const lookupSubjects = query({
+  args: {
+    objectType: v.string(),
+    objectId: v.string(),
+    action: v.string(),
+    subjectType: v.string(),
+    context: v.optional(v.record(v.string(), v.any())),
+    maxDepth: v.optional(v.number()),
+  },
+  returns: v.array(
+    v.object({
+      subjectType: v.string(),
+      subjectId: v.string(),
+      matchedRule: v.optional(v.string()),
+      path: v.array(traversalNodeValidator),
+    })
+  ),
+  handler: async (ctx, args) => {
+    assertValidMaxDepth(args.maxDepth);
+    const cache = createEvaluationCache();
+    const maxDepth = args.maxDepth ?? MAX_DEPTH;
+    const candidates = new Set<string>();
+    const visited = new Set<string>();
+
+    // 1. Walk the rule tree forward, collecting subjects of the requested type
+    const collect = async (
+      objectType: string,
+      objectId: string,
+      permission: string,
+      depth: number
+    ): Promise<void> => {
+      const key = `${objectType}:${objectId}#${permission}`;
+      if (depth > maxDepth || visited.has(key)) return;
+      visited.add(key);
+
+      const rule = await loadRule(ctx, cache, objectType, permission);
+      const expression: ExpressionNode = rule
+        ? loadRuleExpression(rule)
+        : { type: "direct", relation: permission, start: 0, end: permission.length };
+
+      const visit = async (node: ExpressionNode): Promise<void> => {
+        switch (node.type) {
+          case "direct": {
+            const tuples = await loadObjectTuples(ctx, cache, objectType, objectId, node.relation);
+            await Promise.all(
+              tuples.map(async (t) => {
+                if (t.subjectRelation !== undefined) {
+                  await collect(t.subjectType, t.subjectId, t.subjectRelation, depth + 1);
+                } else if (t.subjectType === args.subjectType) {
+                  candidates.add(t.subjectId);
+                }
+              })
+            );
+            break;
+          }
+          case "computed": {
+            const tuples = await loadObjectTuples(ctx, cache, objectType, objectId, node.sourceRelation);
+            await Promise.all(
+              tuples.map((t) => collect(t.subjectType, t.subjectId, node.targetPermission, depth + 1))
+            );
+            break;
+          }
+          case "union":
+          case "intersection":
+            await Promise.all(node.children.map(visit));
+            break;
+          case "exclusion":
+            // The excluded side can only revoke access
+            await visit(node.base);
+            break;
+        }
+      };
+
+      await visit(expression);
+    };
+
+    await collect(args.objectType, args.objectId, args.action, 0);
+
+    // 2. Verify each candidate, keeping the path that grants it
+    const subjectIds = [...candidates].sort();
+    const results = await Promise.all(
+      subjectIds.map((subjectId) =>
+        canRecursiveWithPath(
+          ctx,
+          {
+            objectType: args.objectType,
+            objectId: args.objectId,
+            action: args.action,
+            subjectType: args.subjectType,
+            subjectId,
+            context: args.context,
+            maxDepth: args.maxDepth,
+            cache,
+          },
+          0,
+          [],
+          []
+        )
+      )
+    );
+
+    return subjectIds.flatMap((subjectId, i) =>
+      results[i].allowed
+        ? [{
+            subjectType: args.subjectType,
+            subjectId,
+            matchedRule: results[i].matchedRule,
+            path: results[i].path ?? [],
+          }]
+        : []
+    );
+  },
+});
+
+/**
+ * Expand a permission on an object into its full userset tree
+ *
+ * Not tied to any subject: shows how the permission is composed (unions,
+ * intersections, exclusions, computed hops) down to the subjects holding
+ * each relation directly. Usersets and hops are expanded recursively;
+ * subtrees reached more than once are shared (same node index), and
+ * expansion stops at cycles and at `maxDepth`, marking the node
+ * `truncated`.
+ *
+ * @example
+ * const tree = await zanvex.expand(ctx, { type: "booking", id: "123" }, "cancel");
+ */
+export const expand = query({
+  args: {
+    objectType: v.string(),
+    objectId: v.string(),
+    permission: v.string(),
+    maxDepth: v.optional(v.number()),
+  },
+  returns: expandTreeValidator,
+  handler: async (ctx, args) => {
+    assertValidMaxDepth(args.maxDepth);
+    const cache = createEvaluationCache();
+    const maxDepth = args.maxDepth ?? MAX_DEPTH;
+    const nodes: ExpandNode[] = [];
+    const expanded = new Map<string, number>();
+    let truncations = 0;
+
+    const add = (node: ExpandNode) => nodes.push(node) - 1;
+
+    const expandPermission = async (
+      objectType: string,
+      objectId: string,
+      permission: string,
+      depth: number,
+      visiting: string[]
+    ): Promise<number> => {
+      const key = `${objectType}:${objectId}#${permission}`;
+      const target = { kind: "permission" as const, objectType, objectId, permission };
+
+      if (visiting.includes(key)) {
+        truncations++;
+        return add({ ...target, truncated: "cycle" });
+      }
+      if (depth > maxDepth) {
+        truncations++;
+        return add({ ...target, truncated: "depth" });
+      }
+      const existing = expanded.get(key);
+      if (existing !== undefined) {
+        return existing;
+      }
+
+      const index = add({ ...target, children: [] });
+      const truncationsBefore = truncations;
+
+      const rule = await loadRule(ctx, cache, objectType, permission);
+      const expression: ExpressionNode = rule
+        ? loadRuleExpression(rule)
+        : { type: "direct", relation: permission, start: 0, end: permission.length };
+
+      nodes[index].children = [
+        await expandExpression(objectType, objectId, expression, depth, [...visiting, key]),
+      ];
+
+      // Subtrees cut short by a cycle depend on the branch; don't share them
+      if (truncations === truncationsBefore) {
+        expanded.set(key, index);
+      }
+      return index;
+    };
+
+    const expandExpression = async (
+      objectType: string,
+      objectId: string,
+      node: ExpressionNode,
+      depth: number,
+      visiting: string[]
+    ): Promise<number> => {
+      const children: number[] = [];
+
+      switch (node.type) {
+        case "direct": {
+          const index = add({ kind: "relation", objectType, objectId, relation: node.relation, children });
+          const tuples = await loadObjectTuples(ctx, cache, objectType, objectId, node.relation);
+
+          for (const t of tuples) {
+            children.push(
+              t.subjectRelation !== undefined
+                ? await expandPermission(t.subjectType, t.subjectId, t.subjectRelation, depth + 1, visiting)
+                : add({
+                    kind: "subject",
+                    subjectType: t.subjectType,
+                    subjectId: t.subjectId,
+                    caveatName: t.caveatName,
+                    expiresAt: t.expiresAt,
+                  })
+            );
+          }
+          return index;
+        }
+
+        case "computed": {
+          const index = add({
+            kind: "computed",
+            objectType,
+            objectId,
+            relation: node.sourceRelation,
+            permission: node.targetPermission,
+            children,
+          });
+          const tuples = await loadObjectTuples(ctx, cache, objectType, objectId, node.sourceRelation);
+
+          for (const t of tuples) {
+            children.push(
+              await expandPermission(t.subjectType, t.subjectId, node.targetPermission, depth + 1, visiting)
+            );
+          }
+          return index;
+        }
+
+        case "union":
+        case "intersection":
+        case "exclusion": {
+          const index = add({ kind: node.type, expression: rulesToExpression(node), children });
+          const operands = node.type === "exclusion" ? [node.base, node.excluded] : node.children;
+
+          for (const operand of operands) {
+            children.push(await expandExpression(objectType, objectId, operand, depth, visiting));
+          }
+          return index;
+        }
+      }
+    };
+
+    const root = await expandPermission(args.objectType, args.objectId, args.permission, 0, []);
+    return { root, nodes };
+  },
+});
@@ -1,6 +1,15 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server.js";
-import { parsePermissionExpression } from "./dsl.js";
+import { ConvexError, v } from "convex/values";
+import { mutation, query, type QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import {
+  flattenExpression,
+  inflateExpression,
+  parsePermissionExpression,
+  PermissionExpressionError,
+  type ExpressionNode,
+} from "./dsl.js";
+import { relationTargets } from "./objectTypes.js";
+import { startClearJob, updateRow } from "./jobs.js";
 
 /**
  * Permission Rules CRUD
@@ -9,9 +18,31 @@ import { parsePermissionExpression } from "./dsl.js";
  * are computed from relations.
  */
 
+/**
+ * A problem with a rule expression, with the [start, end) character span
+ * of the offending part so editors can highlight it
+ */
+export const ruleValidationErrorValidator = v.object({
+  message: v.string(),
+  start: v.number(),
+  end: v.number(),
+});
+
+export type RuleValidationError = {
+  message: string;
+  start: number;
+  end: number;
+};
+
 /**
  * Define (or update) a permission rule
  *
+ * The expression must parse, and every relation it references must be
+ * declared in `object_types`: direct relations and hop sources on the
+ * rule's object type, hop targets (relation or permission) on at least one
+ * of the hop's target types. Otherwise throws a ConvexError with data
+ * `{ code: "InvalidPermissionRule", errors: RuleValidationError[] }`.
+ *
  * @param objectType - The object type (e.g., "booking", "resource")
  * @param permission - The permission name (e.g., "view", "edit", "cancel")
  * @param expression - DSL expression (e.g., "parent->edit | booker")
@@ -25,6 +56,15 @@ import { parsePermissionExpression } from "./dsl.js";
  *
  * // OR logic
  * definePermission("booking", "cancel", "parent->edit | booker")
+ *
+ * // AND logic (binds tighter than OR)
+ * definePermission("booking", "cancel", "parent->view & booker")
+ *
+ * // Exclusion (deny even if another path grants access)
+ * definePermission("booking", "view", "parent->view - blocked")
+ *
+ * // Parenthesised sub-expressions
+ * definePermission("booking", "cancel", "(parent->edit | booker) & parent->view")
  */
 export const definePermission = mutation({
   args: {
@@ -34,27 +74,16 @@ export const definePermission = mutation({
   },
   returns: v.id("permission_rules"),
   handler: async (ctx, { objectType, permission, expression }) => {
-    // Parse and validate the expression
-    const rules = parsePermissionExpression(expression);
-
-    // Convert to storage format
-    const rulesForStorage = rules.map((rule) => {
-      if (rule.type === "direct") {
-        return {
-          type: "direct" as const,
-          relation: rule.relation,
-          sourceRelation: undefined,
-          targetPermission: undefined,
-        };
-      } else {
-        return {
-          type: "computed" as const,
-          relation: undefined,
-          sourceRelation: rule.sourceRelation,
-          targetPermission: rule.targetPermission,
-        };
-      }
-    });
+    // Parse and validate the expression, then flatten for storage
+    const { tree, errors } = await validateRule(ctx, objectType, permission, expression);
+    if (!tree || errors.length > 0) {
+      throw new ConvexError({
+        code: "InvalidPermissionRule",
+        message: `Invalid rule ${objectType}.${permission}: ${errors.map((e) => e.message).join("; ")}`,
+        errors,
+      });
+    }
+    const rules = flattenExpression(tree);
 
     // Upsert: Check if rule already exists
     const existing = await ctx.db
@@ -65,22 +94,228 @@ export const definePermission = mutation({
       .first();
 
     if (existing) {
-      await ctx.db.patch(existing._id, {
+      return await updateRow(ctx, "permission_rules", existing, {
         expression,
-        rules: rulesForStorage,
+        rules,
       });
-      return existing._id;
     }
 
     return await ctx.db.insert("permission_rules", {
       objectType,
       permission,
       expression,
-      rules: rulesForStorage,
+      rules,
     });
   },
 });
 
+/**
+ * Validate a rule without saving it (e.g. while it's being edited)
+ *
+ * @returns The problems found, empty if `definePermission` would accept it
+ *
+ * @example
+ * validatePermission("resource", "edit", "owenr->admin_of")
+ * // [{ message: 'Unknown relation "owenr" on "resource" (declared: owner)', start: 0, end: 5 }]
+ */
+export const validatePermission = query({
+  args: {
+    objectType: v.string(),
+    permission: v.string(),
+    expression: v.string(),
+  },
+  returns: v.array(ruleValidationErrorValidator),
+  handler: async (ctx, { objectType, permission, expression }) => {
+    const { errors } = await validateRule(ctx, objectType, permission, expression);
+    return errors;
+  },
+});
+
+/**
+ * Parse an expression and check its references against `object_types`
+ *
+ * Syntax errors are reported as a single error at the parser's position.
+ */
+export async function validateRule(
+  ctx: QueryCtx,
+  objectType: string,
+  permission: string,
+  expression: string
+): Promise<{ tree?: ExpressionNode; errors: RuleValidationError[] }> {
+  let tree: ExpressionNode;
+  try {
+    tree = parsePermissionExpression(expression);
+  } catch (error) {
+    if (error instanceof PermissionExpressionError) {
+      return { errors: [{ message: error.message, start: error.start, end: error.end }] };
+    }
+    throw error;
+  }
+
+  const types = new Map(
+    (await ctx.db.query("object_types").collect()).map((t) => [t.name, t])
+  );
+  const ruleType = types.get(objectType);
+  if (!ruleType) {
+    return {
+      tree,
+      errors: [{
+        message: `Object type "${objectType}" is not registered`,
+        start: 0,
+        end: expression.length,
+      }],
+    };
+  }
+
+  const errors: RuleValidationError[] = [];
+
+  const unknownRelation = (name: string, type: Doc<"object_types">) => {
+    const declared = type.relations.map((r) => r.name).join(", ") || "none";
+    return `Unknown relation "${name}" on "${type.name}" (declared: ${declared})`;
+  };
+
+  // Permissions defined per type, including the one being defined
+  const permissionsByType = new Map<string, Set<string>>();
+  const permissionsOf = async (typeName: string) => {
+    let names = permissionsByType.get(typeName);
+    if (!names) {
+      const rules = await ctx.db
+        .query("permission_rules")
+        .withIndex("by_type_permission", (q) => q.eq("objectType", typeName))
+        .collect();
+      names = new Set(rules.map((r) => r.permission));
+      if (typeName === objectType) names.add(permission);
+      permissionsByType.set(typeName, names);
+    }
+    return names;
+  };
+
+  const visit = async (node: ExpressionNode): Promise<void> => {
+    switch (node.type) {
+      case "direct": {
+        if (!ruleType.relations.some((r) => r.name === node.relation)) {
+          errors.push({
+            message: unknownRelation(node.relation, ruleType),
+            ...locate(expression, node.relation, node.start),
+          });
+        }
+        return;
+      }
+      case "computed": {
+        const source = ruleType.relations.find((r) => r.name === node.sourceRelation);
+        if (!source) {
+          errors.push({
+            message: unknownRelation(node.sourceRelation, ruleType),
+            ...locate(expression, node.sourceRelation, node.start),
+          });
+          return;
+        }
+
+        // Search from the arrow so "owner->owner" locates the target
+        const arrow = expression.indexOf("->", node.start);
+        const targetSpan = locate(expression, node.targetPermission, arrow);
+        const targetNames = [...new Set(relationTargets(source).map((t) => t.type))];
+        const targetTypes = targetNames.flatMap((name) => types.get(name) ?? []);
+        if (targetTypes.length === 0) {
+          errors.push({
+            message: targetNames.length === 1
+              ? `Target type "${targetNames[0]}" of ${objectType}.${source.name} is not registered`
+              : `None of the target types of ${objectType}.${source.name} are registered (${targetNames.join(", ")})`,
+            ...targetSpan,
+          });
+          return;
+        }
+
+        // The hop may land on any of the target types; one defining the name is enough
+        let found = false;
+        for (const targetType of targetTypes) {
+          if (
+            targetType.relations.some((r) => r.name === node.targetPermission) ||
+            (await permissionsOf(targetType.name)).has(node.targetPermission)
+          ) {
+            found = true;
+            break;
+          }
+        }
+        if (!found) {
+          const names = targetTypes.map((t) => `"${t.name}"`).join(" or ");
+          errors.push({
+            message:
+              `"${node.targetPermission}" is neither a relation nor a permission on ${names} ` +
+              `(the target of ${objectType}.${source.name})`,
+            ...targetSpan,
+          });
+        }
+        return;
+      }
+      case "union":
+      case "intersection":
+        for (const child of node.children) await visit(child);
+        return;
+      case "exclusion":
+        await visit(node.base);
+        await visit(node.excluded);
+        return;
+    }
+  };
+
+  await visit(tree);
+  return { tree, errors };
+}
+
+/**
+ * Span of the first occurrence of `name` as a whole word at or after `from`
+ *
+ * Node spans may be widened by parentheses, so names are located by text.
+ */
+function locate(expression: string, name: string, from: number): { start: number; end: number } {
+  const pattern = new RegExp(`(?<![a-zA-Z0-9_])${name}(?![a-zA-Z0-9_])`, "g");
+  pattern.lastIndex = from;
+  const start = pattern.exec(expression)?.index ?? from;
+  return { start, end: start + name.length };
+}
+
+/**
+ * Load the expression tree for a stored rule
+ *
+ * Rows still in the legacy flat format are re-parsed from their
+ * `expression` string, so evaluation works before migration has run.
+ */
+export function loadRuleExpression(rule: Doc<"permission_rules">): ExpressionNode {
+  if (Array.isArray(rule.rules)) {
+    return parsePermissionExpression(rule.expression);
+  }
+  return inflateExpression(rule.rules);
+}
+
+/**
+ * Migrate legacy flat rules to the expression tree format
+ *
+ * Re-parses each legacy row's `expression` and stores the flattened tree.
+ * Safe to call multiple times (already migrated rows are skipped).
+ *
+ * @returns Number of migrated rules
+ */
+export const migrateLegacyRules = mutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const rules = await ctx.db.query("permission_rules").collect();
+    let migrated = 0;
+
+    for (const rule of rules) {
+      if (!Array.isArray(rule.rules)) continue;
+
+      await ctx.db.patch(rule._id, {
+        rules: flattenExpression(parsePermissionExpression(rule.expression)),
+      });
+      migrated++;
+    }
+
+    return migrated;
+  },
+});
+
 /**
  * Get a specific permission rule
  */
@@ -164,17 +399,17 @@ export const deletePermissionRule = mutation({
 
 /**
  * Clear all permission rules
+ *
+ * Requires `confirm: "DELETE_ALL_RULES"`. Runs as a background job (see
+ * jobs.ts) and returns its id.
  */
 export const clearAllRules = mutation({
-  args: {},
-  returns: v.number(),
-  handler: async (ctx) => {
-    const rules = await ctx.db.query("permission_rules").collect();
-
-    for (const rule of rules) {
-      await ctx.db.delete(rule._id);
-    }
-
-    return rules.length;
+  args: {
+    confirm: v.literal("DELETE_ALL_RULES"),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    return await startClearJob(ctx, "clearRules", args.batchSize);
   },
 });
@@ -1,6 +1,55 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+/**
+ * A node of a stored permission expression tree.
+ * Parents reference their children by index into the `nodes` array
+ * (exclusion nodes have exactly two children: [base, excluded]).
+ */
+const expressionNodeValidator = v.object({
+  type: v.union(
+    v.literal("direct"),
+    v.literal("computed"),
+    v.literal("union"),
+    v.literal("intersection"),
+    v.literal("exclusion")
+  ),
+  relation: v.optional(v.string()), // For direct: "booker"
+  sourceRelation: v.optional(v.string()), // For computed: "parent"
+  targetPermission: v.optional(v.string()), // For computed: "edit"
+  children: v.optional(v.array(v.number())), // For union/intersection/exclusion
+  start: v.number(), // Source position in `expression`
+  end: v.number(),
+});
+
+/**
+ * A stored permission expression tree (see `flattenExpression` in dsl.ts)
+ */
+const expressionTreeValidator = v.object({
+  root: v.number(),
+  nodes: v.array(expressionNodeValidator),
+});
+
+/**
+ * Legacy flat rule format (OR list of direct/computed parts).
+ * Rows in this format are rewritten by `rules.migrateLegacyRules`.
+ */
+const legacyRuleValidator = v.object({
+  type: v.union(v.literal("direct"), v.literal("computed")),
+  relation: v.optional(v.string()),
+  sourceRelation: v.optional(v.string()),
+  targetPermission: v.optional(v.string()),
+});
+
+/**
+ * A subject type allowed on a relation: every "type" object, or with
+ * `relation` the userset "type#relation"
+ */
+const targetTypeValidator = v.object({
+  type: v.string(),
+  relation: v.optional(v.string()),
+});
+
 /**
  * Zanvex ReBAC Schema
  *
@@ -18,9 +67,14 @@ export default defineSchema({
    * Stores the schema definition for object types and their valid relations.
    * This enables schema-driven permission traversal and UI validation.
    *
+   * Each relation lists the subject types it allows; an entry with a
+   * `relation` allows that userset ("team#member") instead of the type.
+   *
    * Example:
-   *   { name: "resource", relations: [{ name: "owner", targetType: "org" }] }
-   *   { name: "booking", relations: [{ name: "parent", targetType: "resource" }, { name: "booker", targetType: "user" }] }
+   *   { name: "resource", relations: [{ name: "owner", targetTypes: [{ type: "org" }] }] }
+   *   { name: "folder", relations: [{ name: "parent", targetTypes: [{ type: "folder" }, { type: "workspace" }] }] }
+   *   { name: "doc", relations: [{ name: "viewer", targetTypes: [{ type: "user" }, { type: "team", relation: "member" }] }] }
+   *   { name: "studio", relations: [{ name: "viewer", targetTypes: [{ type: "user" }], allowWildcard: true }] }
    */
   object_types: defineTable({
     name: v.string(),
@@ -28,8 +82,10 @@ export default defineSchema({
     relations: v.array(
       v.object({
         name: v.string(),
-        targetType: v.string(),
+        targetTypes: v.optional(v.array(targetTypeValidator)),
+        targetType: v.optional(v.string()), // Legacy single target type (pending migration)
         description: v.optional(v.string()),
+        allowWildcard: v.optional(v.boolean()), // Opt in to public "type:*" tuples
       })
     ),
   }).index("by_name", ["name"]),
@@ -80,6 +136,7 @@ export default defineSchema({
    *   - (resource:studio-a, owner, org:acme)     → "studio-a is owned by acme"
    *   - (org:acme, member_of, user:daniel)       → "acme has member daniel"
    *   - (booking:123, booker, user:mike)         → "booking 123 was made by mike"
+   *   - (resource:studio-a, viewer, org:acme#member_of) → "members of acme can view studio-a"
    */
   tuples: defineTable({
     // The object being accessed (e.g., "resource", "org")
@@ -92,14 +149,42 @@ export default defineSchema({
     // The subject with access (can be user or another object like org)
     subjectType: v.string(),
     subjectId: v.string(),
+
+    // Optional relation on the subject, making it a userset:
+    // (resource:x, viewer, org:acme#member_of) → "all members of acme view x"
+    subjectRelation: v.optional(v.string()),
+
+    // Optional expiry (ms since epoch): the tuple stops granting access
+    // after this time and is garbage-collected by `tuples.purgeExpired`
+    expiresAt: v.optional(v.number()),
+
+    // Optional caveat: the tuple only grants access when the named caveat
+    // (see `caveats` table) evaluates to true. `caveatContext` holds values
+    // stored with the tuple; the rest come from the check's request context.
+    caveatName: v.optional(v.string()),
+    caveatContext: v.optional(v.record(v.string(), v.any())),
   })
     // For "who has access to this object?"
     // Query: All subjects with relation X to object Y
     .index("by_object", ["objectType", "objectId", "relation"])
 
+    // For userset expansion without reading plain subjects
+    // Query: All usersets (subjectRelation set) with relation X to object Y
+    .index("by_object_userset", [
+      "objectType",
+      "objectId",
+      "relation",
+      "subjectRelation",
+    ])
+
     // For "what does this subject have access to?"
-    // Query: All objects where subject has relation X
-    .index("by_subject", ["subjectType", "subjectId", "relation"])
+    // Query: All objects where subject (or userset) has relation X
+    .index("by_subject", [
+      "subjectType",
+      "subjectId",
+      "subjectRelation",
+      "relation",
+    ])
 
     // For exact tuple lookup (deduplication, idempotent writes)
     // Query: Does this exact tuple exist?
@@ -109,7 +194,20 @@ export default defineSchema({
       "relation",
       "subjectType",
       "subjectId",
-    ]),
+      "subjectRelation",
+    ])
+
+    // For schema diffs: tuples of a relation across every object of a type
+    .index("by_type_relation", [
+      "objectType",
+      "relation",
+      "subjectType",
+      "subjectRelation",
+      "subjectId",
+    ])
+
+    // For garbage-collecting expired tuples
+    .index("by_expiry", ["expiresAt"]),
 
   /**
    * Permission Rules (Zanzibar-style)
@@ -121,6 +219,11 @@ export default defineSchema({
    *   - "booker"           → Direct relation check
    *   - "owner->admin_of"  → Follow 'owner' relation, check 'admin_of' permission on target
    *   - "parent->edit | booker" → OR logic: either path grants access
+   *   - "owner->member_of & booker" → AND logic: both paths must grant access
+   *   - "parent->view - blocked" → Exclusion: deny if 'blocked' matches
+   *   - "(owner->admin_of | booker) & parent->view" → Parenthesised sub-expressions
+   *
+   * The parsed expression is stored as a flattened tree in `rules`.
    *
    * Example rules:
    *   { objectType: "resource", permission: "view", expression: "owner->admin_of | owner->member_of" }
@@ -147,14 +250,85 @@ export default defineSchema({
     objectType: v.string(), // "booking", "resource", "org"
     permission: v.string(), // "view", "edit", "cancel", "delete"
     expression: v.string(), // "parent->edit | booker" (human readable DSL)
-    rules: v.array(
+    rules: v.union(
+      expressionTreeValidator, // Parsed expression tree for evaluation
+      v.array(legacyRuleValidator) // Legacy flat rules (pending migration)
+    ),
+  }).index("by_type_permission", ["objectType", "permission"]),
+
+  /**
+   * Deployment Settings
+   *
+   * At most one row, holding per-deployment configuration (see settings.ts).
+   * Missing fields fall back to their defaults.
+   *
+   * Example:
+   *   { tupleValidation: "warn" }
+   */
+  settings: defineTable({
+    // How tuple writes are checked against `object_types`:
+    // "off" (default) | "warn" (log and write) | "enforce" (reject)
+    tupleValidation: v.optional(
+      v.union(v.literal("off"), v.literal("warn"), v.literal("enforce"))
+    ),
+  }),
+
+  /**
+   * Background Jobs
+   *
+   * Progress of chunked, scheduled bulk operations (see jobs.ts). A clear
+   * job deletes the rows of one table that existed when it started, a batch
+   * per transaction, so large tables don't hit transaction limits.
+   *
+   * Example:
+   *   { kind: "clearTuples", status: "running", deleted: 12000, batchSize: 1000,
+   *     throughCreationTime: 1718000000000.5, startedAt: 1718000000100 }
+   */
+  jobs: defineTable({
+    kind: v.union(
+      v.literal("clearTuples"),
+      v.literal("clearRules"),
+      v.literal("clearObjectTypes")
+    ),
+    status: v.union(v.literal("running"), v.literal("completed")),
+    deleted: v.number(), // Rows deleted so far
+    batchSize: v.number(), // Rows deleted per transaction
+    // Newest `_creationTime` to delete (rows created later are kept);
+    // absent if the table was empty
+    throughCreationTime: v.optional(v.number()),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+  })
+    .index("by_kind_status", ["kind", "status"]),
+
+  /**
+   * Caveat Definitions (SpiceDB-style conditional relationships)
+   *
+   * A caveat is a named boolean expression over typed parameters (see
+   * caveatDsl.ts). Tuples reference a caveat by name and are only in effect
+   * when it evaluates to true against the tuple's stored context merged
+   * with the context passed to `can` / `canWithPath`.
+   *
+   * Example caveats:
+   *   { name: "business_hours", parameters: [{ name: "hour", type: "number" }],
+   *     expression: "hour >= 9 && hour < 17" }
+   *   { name: "ip_allowlist", parameters: [{ name: "ip", type: "ipaddress" }, { name: "cidr", type: "string" }],
+   *     expression: "inCidr(ip, cidr)" }
+   */
+  caveats: defineTable({
+    name: v.string(),
+    parameters: v.array(
       v.object({
-        // Parsed rules for evaluation
-        type: v.union(v.literal("direct"), v.literal("computed")),
-        relation: v.optional(v.string()), // For direct: "booker"
-        sourceRelation: v.optional(v.string()), // For computed: "parent"
-        targetPermission: v.optional(v.string()), // For computed: "edit"
+        name: v.string(),
+        type: v.union(
+          v.literal("string"),
+          v.literal("number"),
+          v.literal("boolean"),
+          v.literal("list"),
+          v.literal("ipaddress")
+        ),
       })
     ),
-  }).index("by_type_permission", ["objectType", "permission"]),
+    expression: v.string(), // "hour >= 9 && hour < 17"
+  }).index("by_name", ["name"]),
 });
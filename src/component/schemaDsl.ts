@@ -0,0 +1,348 @@
+/**
+ * Schema Language
+ *
+ * A text format describing object types, their relations and permission
+ * rules in one place (SpiceDB-style), applied with `definitions.applySchema`
+ * and produced by `definitions.exportSchema`.
+ *
+ * Syntax:
+ *   definition user {}
+ *
+ *   /** An organization *\/
+ *   definition org {
+ *     relation admin_of: user
+ *     relation member_of: user | team#member
+ *     permission read = admin_of | member_of
+ *   }
+ *
+ *   definition resource {
+ *     relation owner: org
+ *     relation viewer: user | user:*
+ *     permission edit = owner->admin_of
+ *   }
+ *
+ *   - `relation NAME: TYPE | TYPE#RELATION | TYPE:*` lists the allowed
+ *     subject types: plain objects, usersets, and (`:*`) public wildcards.
+ *     Wildcards are enabled per relation, for all of its plain types.
+ *   - `permission NAME = EXPRESSION` takes a permission DSL expression
+ *     (see dsl.ts) that runs to the end of the line
+ *   - `//` starts a comment; a `/** ... *\/` comment before a definition or
+ *     relation becomes its description
+ */
+
+import { parsePermissionExpression, PermissionExpressionError } from "./dsl.js";
+
+/**
+ * A parsed `definition` block
+ */
+export interface SchemaDefinition {
+  name: string;
+  description?: string;
+  relations: SchemaRelation[];
+  permissions: SchemaPermission[];
+}
+
+export interface SchemaRelation {
+  name: string;
+  description?: string;
+  targetTypes: Array<{ type: string; relation?: string }>;
+  allowWildcard?: boolean;
+  start: number; // Span from the name to the last subject type
+  end: number;
+}
+
+export interface SchemaPermission {
+  name: string;
+  expression: string;
+  start: number; // Span of `expression` in the schema text
+  end: number;
+}
+
+/**
+ * Error thrown for invalid schema text, carrying the offending source span
+ */
+export class SchemaParseError extends Error {
+  constructor(
+    message: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message);
+    this.name = "SchemaParseError";
+  }
+}
+
+const IDENT = /[a-zA-Z_][a-zA-Z0-9_]*/y;
+
+/**
+ * Parse schema text into definitions
+ *
+ * Permission expressions are checked for syntax here; whether the
+ * relations they reference exist is checked when the schema is applied.
+ *
+ * @throws SchemaParseError if the schema is invalid
+ */
+export function parseSchema(text: string): SchemaDefinition[] {
+  let pos = 0;
+  let doc: string | undefined;
+
+  const fail = (message: string, start: number, end = start + 1): never => {
+    const { line, column } = lineAndColumn(text, start);
+    throw new SchemaParseError(`${message} (line ${line}, column ${column})`, start, Math.min(end, text.length));
+  };
+
+  // Skip whitespace and comments, remembering the last doc comment
+  const skipTrivia = () => {
+    for (;;) {
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+
+      if (text.startsWith("//", pos)) {
+        while (pos < text.length && text[pos] !== "\n") pos++;
+      } else if (text.startsWith("/*", pos)) {
+        const close = text.indexOf("*/", pos + 2);
+        if (close < 0) fail("Unterminated comment", pos, pos + 2);
+        if (text.startsWith("/**", pos)) {
+          doc = text
+            .slice(pos + 3, close)
+            .split("\n")
+            .map((line) => line.replace(/^\s*\*?\s?/, "").trimEnd())
+            .join("\n")
+            .trim() || undefined;
+        }
+        pos = close + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const takeDoc = () => {
+    const description = doc;
+    doc = undefined;
+    return description;
+  };
+
+  const describeNext = () => (pos >= text.length ? "end of schema" : `"${text[pos]}"`);
+
+  const readIdent = (what: string): string => {
+    IDENT.lastIndex = pos;
+    const match = IDENT.exec(text);
+    if (!match) fail(`Expected ${what}, found ${describeNext()}`, pos);
+    pos = IDENT.lastIndex;
+    return match![0];
+  };
+
+  const expect = (char: string) => {
+    if (text[pos] !== char) fail(`Expected "${char}", found ${describeNext()}`, pos);
+    pos++;
+  };
+
+  const parseRelation = (description: string | undefined): SchemaRelation => {
+    const start = pos;
+    const relation: SchemaRelation = { name: readIdent("relation name"), targetTypes: [], start, end: start };
+    if (description) relation.description = description;
+    skipTrivia();
+    expect(":");
+
+    for (;;) {
+      skipTrivia();
+      const type = readIdent("subject type");
+
+      if (text.startsWith(":*", pos)) {
+        pos += 2;
+        relation.allowWildcard = true;
+        if (!relation.targetTypes.some((t) => t.type === type && t.relation === undefined)) {
+          relation.targetTypes.push({ type });
+        }
+      } else if (text[pos] === "#") {
+        pos++;
+        relation.targetTypes.push({ type, relation: readIdent("subject relation") });
+      } else if (!relation.targetTypes.some((t) => t.type === type && t.relation === undefined)) {
+        relation.targetTypes.push({ type });
+      }
+
+      relation.end = pos;
+      skipTrivia();
+      if (text[pos] !== "|") return relation;
+      pos++;
+    }
+  };
+
+  const parsePermission = (): SchemaPermission => {
+    const name = readIdent("permission name");
+    skipTrivia();
+    expect("=");
+    while (text[pos] === " " || text[pos] === "\t") pos++;
+
+    // The expression runs to the end of the line (or ";", "}" or a comment)
+    const start = pos;
+    while (
+      pos < text.length &&
+      !"\n;}".includes(text[pos]) &&
+      !text.startsWith("//", pos)
+    ) {
+      pos++;
+    }
+    const expression = text.slice(start, pos).trimEnd();
+    if (expression.length === 0) fail(`Permission "${name}" needs an expression`, start);
+
+    try {
+      parsePermissionExpression(expression);
+    } catch (error) {
+      if (error instanceof PermissionExpressionError) {
+        fail(error.message, start + error.start, start + error.end);
+      }
+      throw error;
+    }
+
+    return { name, expression, start, end: start + expression.length };
+  };
+
+  const definitions: SchemaDefinition[] = [];
+
+  for (;;) {
+    skipTrivia();
+    if (pos >= text.length) break;
+
+    const keywordStart = pos;
+    if (readIdent('"definition"') !== "definition") {
+      fail(`Expected "definition"`, keywordStart, pos);
+    }
+    const description = takeDoc();
+    skipTrivia();
+    const definition: SchemaDefinition = {
+      name: readIdent("definition name"),
+      relations: [],
+      permissions: [],
+    };
+    if (description) definition.description = description;
+    skipTrivia();
+    expect("{");
+
+    for (;;) {
+      skipTrivia();
+      if (text[pos] === "}") {
+        pos++;
+        doc = undefined;
+        break;
+      }
+      if (text[pos] === ";") {
+        pos++;
+        continue;
+      }
+
+      const memberStart = pos;
+      const keyword = readIdent('"relation", "permission" or "}"');
+      const memberDoc = takeDoc();
+      skipTrivia();
+      const nameStart = pos;
+      let member: SchemaRelation | SchemaPermission;
+      if (keyword === "relation") {
+        member = parseRelation(memberDoc);
+        definition.relations.push(member);
+      } else if (keyword === "permission") {
+        member = parsePermission();
+        definition.permissions.push(member);
+      } else {
+        return fail(`Expected "relation", "permission" or "}", found "${keyword}"`, memberStart, pos);
+      }
+
+      // Relations and permissions share one namespace per definition
+      const members = [...definition.relations, ...definition.permissions];
+      if (members.filter((m) => m.name === member.name).length > 1) {
+        fail(
+          `Duplicate relation or permission "${member.name}" in definition "${definition.name}"`,
+          nameStart,
+          nameStart + member.name.length
+        );
+      }
+    }
+
+    if (definitions.some((d) => d.name === definition.name)) {
+      fail(`Duplicate definition "${definition.name}"`, keywordStart, pos);
+    }
+    definitions.push(definition);
+  }
+
+  return definitions;
+}
+
+/**
+ * 1-based line and column of a character offset
+ */
+export function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+}
+
+/**
+ * Format a relation's subject types in schema syntax: "user | user:* | team#member"
+ */
+export function formatRelationTargets(relation: {
+  targetTypes: Array<{ type: string; relation?: string }>;
+  allowWildcard?: boolean;
+}): string {
+  return relation.targetTypes
+    .flatMap((t) => {
+      if (t.relation !== undefined) return [`${t.type}#${t.relation}`];
+      return relation.allowWildcard ? [t.type, `${t.type}:*`] : [t.type];
+    })
+    .join(" | ");
+}
+
+/**
+ * Format definitions as schema text that `parseSchema` reads back
+ *
+ * Definitions, relations and permissions are written in the given order.
+ */
+export function formatSchema(
+  definitions: Array<{
+    name: string;
+    description?: string;
+    relations: Array<{
+      name: string;
+      description?: string;
+      targetTypes: Array<{ type: string; relation?: string }>;
+      allowWildcard?: boolean;
+    }>;
+    permissions: Array<{ name: string; expression: string }>;
+  }>
+): string {
+  const blocks = definitions.map((definition) => {
+    const lines = formatDoc(definition.description, "");
+    if (definition.relations.length === 0 && definition.permissions.length === 0) {
+      return [...lines, `definition ${definition.name} {}`].join("\n");
+    }
+
+    lines.push(`definition ${definition.name} {`);
+    for (const relation of definition.relations) {
+      lines.push(...formatDoc(relation.description, "  "));
+      lines.push(`  relation ${relation.name}: ${formatRelationTargets(relation)}`);
+    }
+    if (definition.relations.length > 0 && definition.permissions.length > 0) {
+      lines.push("");
+    }
+    for (const permission of definition.permissions) {
+      // Expressions run to the end of the line
+      lines.push(`  permission ${permission.name} = ${permission.expression.replace(/\s*\n\s*/g, " ")}`);
+    }
+    lines.push("}");
+    return lines.join("\n");
+  });
+
+  return blocks.length > 0 ? `${blocks.join("\n\n")}\n` : "";
+}
+
+function formatDoc(description: string | undefined, indent: string): string[] {
+  if (!description) return [];
+
+  // "*/" would end the comment early
+  const lines = description.replace(/\*\//g, "* /").split("\n");
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [
+    `${indent}/**`,
+    ...lines.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+    `${indent} */`,
+  ];
+}
@@ -0,0 +1,71 @@
+import { v } from "convex/values";
+import { mutation, query, type QueryCtx } from "./_generated/server.js";
+
+/**
+ * Deployment Settings
+ *
+ * Per-deployment configuration stored in the component's `settings` table,
+ * so it can be changed at runtime (e.g. to roll out tuple validation
+ * gradually: off → warn → enforce).
+ */
+
+/**
+ * How `tuples.write` checks tuples against the object type registry:
+ *   - "off":     no checks (default)
+ *   - "warn":    log invalid tuples but write them
+ *   - "enforce": reject invalid tuples
+ */
+export const tupleValidationModeValidator = v.union(
+  v.literal("off"),
+  v.literal("warn"),
+  v.literal("enforce")
+);
+
+export type TupleValidationMode = "off" | "warn" | "enforce";
+
+const settingsSchema = v.object({
+  tupleValidation: tupleValidationModeValidator,
+});
+
+/**
+ * Get the deployment settings (with defaults applied)
+ */
+export const getSettings = query({
+  args: {},
+  returns: settingsSchema,
+  handler: async (ctx) => {
+    return { tupleValidation: await getTupleValidationMode(ctx) };
+  },
+});
+
+/**
+ * Set the tuple validation mode
+ *
+ * Only affects future writes: existing tuples are not re-checked.
+ *
+ * @example
+ * setTupleValidation("warn")     // Log invalid writes, find offenders
+ * setTupleValidation("enforce")  // Then reject them
+ */
+export const setTupleValidation = mutation({
+  args: { mode: tupleValidationModeValidator },
+  returns: v.null(),
+  handler: async (ctx, { mode }) => {
+    const existing = await ctx.db.query("settings").first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { tupleValidation: mode });
+    } else {
+      await ctx.db.insert("settings", { tupleValidation: mode });
+    }
+    return null;
+  },
+});
+
+/**
+ * Read the current tuple validation mode
+ */
+export async function getTupleValidationMode(ctx: QueryCtx): Promise<TupleValidationMode> {
+  const settings = await ctx.db.query("settings").first();
+  return settings?.tupleValidation ?? "off";
+}
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+type ConvexTest = ReturnType<typeof initConvexTest>;
+
+const studio = { objectType: "resource", objectId: "studio-a" };
+const firstPage = { numItems: 10, cursor: null };
+
+describe("tuple filters", () => {
+  let t: ConvexTest;
+
+  beforeEach(async () => {
+    t = initConvexTest();
+    // acme owns studio-a; acme's members view it (a userset, not acme itself)
+    await t.mutation(api.tuples.write, { ...studio, relation: "owner", subjectType: "org", subjectId: "acme" });
+    await t.mutation(api.tuples.write, {
+      ...studio,
+      relation: "viewer",
+      subjectType: "org",
+      subjectId: "acme",
+      subjectRelation: "member_of",
+    });
+  });
+
+  test("subjectRelation selects plain subjects or one userset", async () => {
+    const read = async (subjectRelation?: string | null) => {
+      const { page } = await t.query(api.check.readTuples, {
+        subjectType: "org",
+        subjectId: "acme",
+        subjectRelation,
+        paginationOpts: firstPage,
+      });
+      return page.map((tuple) => tuple.relation).sort();
+    };
+
+    expect(await read()).toEqual(["owner", "viewer"]);
+    expect(await read(null)).toEqual(["owner"]);
+    expect(await read("member_of")).toEqual(["viewer"]);
+
+    const exact = await t.query(api.check.readTuples, {
+      ...studio,
+      relation: "viewer",
+      subjectType: "org",
+      subjectId: "acme",
+      subjectRelation: null,
+      paginationOpts: firstPage,
+    });
+    expect(exact.page).toEqual([]);
+  });
+
+  test("mustNotMatch ignores usersets when subjectRelation is null", async () => {
+    const grantAcme = {
+      operation: "create" as const,
+      tuple: { ...studio, relation: "viewer", subjectType: "org", subjectId: "acme" },
+    };
+    const filter = { ...studio, relation: "viewer", subjectType: "org", subjectId: "acme" };
+
+    await expect(
+      t.mutation(api.tuples.writeTuples, {
+        updates: [grantAcme],
+        preconditions: [{ operation: "mustNotMatch", filter }],
+      })
+    ).rejects.toThrow(/PreconditionFailed/);
+
+    await t.mutation(api.tuples.writeTuples, {
+      updates: [grantAcme],
+      preconditions: [{ operation: "mustNotMatch", filter: { ...filter, subjectRelation: null } }],
+    });
+  });
+
+  test("filters that aren't an index prefix throw InvalidTupleFilter", async () => {
+    await expect(
+      t.mutation(api.tuples.writeTuples, {
+        updates: [],
+        preconditions: [{ operation: "mustMatch", filter: { objectType: "resource", relation: "owner" } }],
+      })
+    ).rejects.toThrow(/InvalidTupleFilter/);
+  });
+});
+
+describe("deleteTuples", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("pages through filters that aren't an index prefix", async () => {
+    const t = initConvexTest();
+    // resource:0..5 each have an owner and a viewer; only the owners match
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 6; i++) {
+        for (const relation of ["owner", "viewer"]) {
+          await ctx.db.insert("tuples", {
+            objectType: "resource",
+            objectId: `${i}`,
+            relation,
+            subjectType: "user",
+            subjectId: "alice",
+          });
+        }
+      }
+    });
+
+    const first = await t.mutation(api.tuples.deleteTuples, {
+      objectType: "resource",
+      relation: "owner",
+      batchSize: 4,
+    });
+    // The first batch reads 4 rows, 2 of which are owners
+    expect(first).toEqual({ deleted: 2, isDone: false });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const remaining = await t.run((ctx) => ctx.db.query("tuples").collect());
+    expect(remaining.map((tuple) => tuple.relation)).toEqual(Array(6).fill("viewer"));
+  });
+
+  test("removeAllForObject reports whether batches were scheduled", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.tuples.write, { ...studio, relation: "owner", subjectType: "user", subjectId: "alice" });
+
+    expect(await t.mutation(api.tuples.removeAllForObject, studio)).toEqual({ deleted: 1, isDone: true });
+  });
+});
+
+describe("clearAll", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("keeps tuples written during the clear, including existing ones written again", async () => {
+    const t = initConvexTest();
+    const owner = { ...studio, relation: "owner", subjectType: "user", subjectId: "alice" };
+    const viewer = { ...studio, relation: "viewer", subjectType: "user", subjectId: "bob" };
+    const editor = { ...studio, relation: "editor", subjectType: "user", subjectId: "carol" };
+    await t.mutation(api.tuples.write, owner);
+    await t.mutation(api.tuples.write, editor);
+
+    const jobId = await t.mutation(api.tuples.clearAll, { confirm: "DELETE_ALL_TUPLES" });
+    await t.mutation(api.tuples.write, owner);
+    await t.mutation(api.tuples.write, viewer);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const remaining = await t.run((ctx) => ctx.db.query("tuples").collect());
+    expect(remaining.map((tuple) => tuple.relation).sort()).toEqual(["owner", "viewer"]);
+    expect(await t.query(api.jobs.getJob, { jobId })).toMatchObject({ status: "completed", deleted: 1 });
+  });
+
+  test("keeps object types and rules re-applied during the clear", async () => {
+    const t = initConvexTest();
+    const schema = `
+      definition user {}
+
+      definition org {
+        relation member_of: user
+        permission read = member_of
+      }
+    `;
+    await t.mutation(api.definitions.applySchema, { schema });
+
+    await t.mutation(api.objectTypes.clearAllObjectTypes, { confirm: "DELETE_ALL_OBJECT_TYPES" });
+    await t.mutation(api.rules.clearAllRules, { confirm: "DELETE_ALL_RULES" });
+    expect(await t.mutation(api.definitions.applySchema, { schema })).toEqual([]);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const { types, rules } = await t.run(async (ctx) => ({
+      types: await ctx.db.query("object_types").collect(),
+      rules: await ctx.db.query("permission_rules").collect(),
+    }));
+    expect(types.map((type) => type.name).sort()).toEqual(["org", "user"]);
+    expect(rules.map((rule) => rule.permission)).toEqual(["read"]);
+  });
+});
+
+describe("purgeExpired", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects a batchSize that isn't a positive integer", async () => {
+    const t = initConvexTest();
+    for (const batchSize of [0, -1, 1.5]) {
+      await expect(t.mutation(api.tuples.purgeExpired, { batchSize })).rejects.toThrow(/batchSize/);
+    }
+  });
+
+  test("each expiring write schedules the tuple's delete", async () => {
+    const t = initConvexTest();
+    const guest = { ...studio, relation: "viewer", subjectType: "user", subjectId: "guest" };
+    const staff = { ...studio, relation: "viewer", subjectType: "user", subjectId: "staff" };
+    await t.mutation(api.tuples.write, { ...guest, expiresAt: Date.now() + 1000 });
+    await t.mutation(api.tuples.write, { ...staff, expiresAt: Date.now() + 1000 });
+    // Writing staff again without an expiry makes it permanent
+    await t.mutation(api.tuples.write, staff);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const remaining = await t.run((ctx) => ctx.db.query("tuples").collect());
+    expect(remaining.map((tuple) => tuple.subjectId)).toEqual(["staff"]);
+  });
+
+  test("deletes expired tuples in batches", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      for (const subjectId of ["alice", "bob", "carol"]) {
+        await ctx.db.insert("tuples", {
+          ...studio,
+          relation: "viewer",
+          subjectType: "user",
+          subjectId,
+          expiresAt: Date.now() - 1000,
+        });
+      }
+      await ctx.db.insert("tuples", { ...studio, relation: "owner", subjectType: "user", subjectId: "dave" });
+    });
+
+    expect(await t.mutation(api.tuples.purgeExpired, { batchSize: 2 })).toBe(2);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const remaining = await t.run((ctx) => ctx.db.query("tuples").collect());
+    expect(remaining.map((tuple) => tuple.subjectId)).toEqual(["dave"]);
+  });
+});
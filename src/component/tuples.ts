@@ -1,5 +1,10 @@
-import { v } from "convex/values";
-import { mutation } from "./_generated/server.js";
+import { ConvexError, v, type Infer } from "convex/values";
+import { internalMutation, mutation, type MutationCtx, type QueryCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { api, internal } from "./_generated/api.js";
+import { getTupleValidationMode } from "./settings.js";
+import { formatTargetType, relationTargets } from "./objectTypes.js";
+import { startClearJob, updateRow } from "./jobs.js";
 
 /**
  * Tuple Write Operations
@@ -13,13 +18,166 @@ import { mutation } from "./_generated/server.js";
  *
  * - write("org", "acme", "member_of", "user", "daniel")
  *   → Creates: org:acme has member user:daniel
+ *
+ * - write("resource", "studio-a", "viewer", "org", "acme", "member_of")
+ *   → Creates: every member_of org:acme is a viewer of resource:studio-a
+ *
+ * Tuples may carry an `expiresAt` timestamp: after it they no longer grant
+ * access. Each write schedules the tuple's delete at `expiresAt`, so
+ * subscribed queries re-run when it lapses; `purgeExpired` is a backstop
+ * for tuples whose scheduled delete didn't run.
+ *
+ * `writeTuples` applies several creates, touches and deletes atomically.
+ */
+
+/**
+ * Subject id that matches every subject of its type: (studio:a, viewer, user:*)
+ */
+export const WILDCARD_SUBJECT_ID = "*";
+
+/**
+ * Whether a tuple has passed its `expiresAt` and no longer grants access
+ */
+export function isExpired(tuple: { expiresAt?: number }, now: number): boolean {
+  return tuple.expiresAt !== undefined && tuple.expiresAt <= now;
+}
+
+/**
+ * A stored tuple as returned to callers (without database fields)
+ */
+export const tupleValidator = v.object({
+  objectType: v.string(),
+  objectId: v.string(),
+  relation: v.string(),
+  subjectType: v.string(),
+  subjectId: v.string(),
+  subjectRelation: v.optional(v.string()),
+  expiresAt: v.optional(v.number()),
+  caveatName: v.optional(v.string()),
+  caveatContext: v.optional(v.record(v.string(), v.any())),
+});
+
+/**
+ * Equality filter on tuple fields
+ *
+ * Set fields must form a prefix of (objectType, objectId, relation,
+ * subjectType, subjectId, subjectRelation), answered with the `by_object` /
+ * `by_tuple` indexes, or of (subjectType, subjectId, subjectRelation,
+ * relation), answered with `by_subject`. An empty filter matches every tuple.
+ *
+ * `subjectRelation: null` matches only plain subjects (no userset), so
+ * `{ subjectType: "org", subjectId: "acme", subjectRelation: null }` leaves
+ * out `org:acme#member_of`; leaving it unset matches both.
+ */
+export const tupleFilterValidator = v.object({
+  objectType: v.optional(v.string()),
+  objectId: v.optional(v.string()),
+  relation: v.optional(v.string()),
+  subjectType: v.optional(v.string()),
+  subjectId: v.optional(v.string()),
+  subjectRelation: v.optional(v.union(v.string(), v.null())),
+});
+
+export type TupleFilter = Infer<typeof tupleFilterValidator>;
+
+const OBJECT_PREFIX = [
+  "objectType",
+  "objectId",
+  "relation",
+  "subjectType",
+  "subjectId",
+  "subjectRelation",
+] as const;
+const SUBJECT_PREFIX = ["subjectType", "subjectId", "subjectRelation", "relation"] as const;
+
+type FilterField = (typeof OBJECT_PREFIX)[number];
+
+/**
+ * The stored value a filter field matches (null: no subject relation)
+ */
+function filterValue(filter: TupleFilter, field: FilterField): string | undefined {
+  return filter[field] ?? undefined;
+}
+
+/**
+ * Query the tuples matching a filter on the index that covers it
+ *
+ * @throws ConvexError with data `{ code: "InvalidTupleFilter", message,
+ * filter }` if the set fields aren't a supported prefix
+ */
+export function queryTuples(ctx: QueryCtx, filter: TupleFilter) {
+  const given = OBJECT_PREFIX.filter((field) => filter[field] !== undefined);
+  const isPrefixOf = (order: readonly FilterField[]) =>
+    given.length <= order.length && order.slice(0, given.length).every((field) => filter[field] !== undefined);
+  const eqAll = (order: readonly FilterField[]) => (q: any) =>
+    order.slice(0, given.length).reduce((range, field) => range.eq(field, filterValue(filter, field)), q);
+
+  if (given.length === 0) {
+    return ctx.db.query("tuples");
+  }
+  if (isPrefixOf(OBJECT_PREFIX)) {
+    return ctx.db.query("tuples").withIndex(given.length <= 3 ? "by_object" : "by_tuple", eqAll(OBJECT_PREFIX));
+  }
+  if (isPrefixOf(SUBJECT_PREFIX)) {
+    return ctx.db.query("tuples").withIndex("by_subject", eqAll(SUBJECT_PREFIX));
+  }
+  throw new ConvexError({
+    code: "InvalidTupleFilter",
+    message:
+      `Unsupported tuple filter on ${given.join(", ")}: filter on a prefix of ` +
+      `${OBJECT_PREFIX.join(", ")}, or of ${SUBJECT_PREFIX.join(", ")}`,
+    filter,
+  });
+}
+
+/**
+ * Split a filter with any combination of fields into a query on the index
+ * covering its longest prefix (see `queryTuples`) and a predicate for the
+ * remaining fields
+ *
+ * Combinations that aren't a prefix read more rows than they return, so
+ * callers should page through `query` in bounded batches.
  */
+function splitFilter(ctx: QueryCtx, filter: TupleFilter) {
+  const prefixLength = (order: readonly FilterField[]) => {
+    let length = 0;
+    while (length < order.length && filter[order[length]] !== undefined) length++;
+    return length;
+  };
+  const objectPrefix = prefixLength(OBJECT_PREFIX);
+  const subjectPrefix = prefixLength(SUBJECT_PREFIX);
+  const indexed: readonly FilterField[] =
+    objectPrefix >= subjectPrefix
+      ? OBJECT_PREFIX.slice(0, objectPrefix)
+      : SUBJECT_PREFIX.slice(0, subjectPrefix);
+
+  const rest = OBJECT_PREFIX.filter((field) => filter[field] !== undefined && !indexed.includes(field));
+  return {
+    query: queryTuples(ctx, Object.fromEntries(indexed.map((field) => [field, filter[field]]))),
+    matches: (tuple: Doc<"tuples">) => rest.every((field) => tuple[field] === filterValue(filter, field)),
+  };
+}
 
 /**
  * Create a relationship tuple (idempotent)
  *
  * If the exact tuple already exists, returns the existing ID.
  * This makes it safe to call multiple times without creating duplicates.
+ *
+ * Pass `subjectRelation` to grant the relation to a userset (every subject
+ * that has `subjectRelation` on the subject object) instead of one subject.
+ *
+ * Pass `subjectId: "*"` to grant the relation to every subject of that type.
+ * Only allowed on relations registered with `allowWildcard: true`.
+ *
+ * Pass `expiresAt` (ms since epoch) for temporary access, and `caveatName`
+ * (plus optional stored `caveatContext`) for conditional access. Writing an
+ * existing tuple again updates its expiry and caveat (omit them to make
+ * the tuple permanent and unconditional). Expiring tuples are deleted by a
+ * function scheduled at `expiresAt` (see `deleteIfExpired`).
+ *
+ * Depending on the deployment's tuple validation mode (see settings.ts),
+ * tuples that don't fit the object type registry are logged or rejected.
  */
 export const write = mutation({
   args: {
@@ -28,37 +186,267 @@ export const write = mutation({
     relation: v.string(),
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()), // Userset: "org:acme#member_of"
+    expiresAt: v.optional(v.number()), // Stops granting access after this time
+    caveatName: v.optional(v.string()), // Only grants access if caveat holds
+    caveatContext: v.optional(v.record(v.string(), v.any())),
   },
   returns: v.id("tuples"),
   handler: async (ctx, args) => {
-    // Check for existing tuple (idempotent write)
-    const existing = await ctx.db
-      .query("tuples")
-      .withIndex("by_tuple", (q) =>
-        q
-          .eq("objectType", args.objectType)
-          .eq("objectId", args.objectId)
-          .eq("relation", args.relation)
-          .eq("subjectType", args.subjectType)
-          .eq("subjectId", args.subjectId)
-      )
-      .first();
+    return await writeTuple(ctx, args);
+  },
+});
+
+type TupleArgs = Infer<typeof tupleValidator>;
 
-    if (existing) {
-      return existing._id;
+/**
+ * Write a tuple: validate it, then insert it or update the existing one
+ * (see `write`)
+ */
+async function writeTuple(ctx: MutationCtx, args: TupleArgs): Promise<Id<"tuples">> {
+  if (args.subjectId === WILDCARD_SUBJECT_ID) {
+    await assertWildcardAllowed(ctx, args);
+  }
+  if (args.caveatName !== undefined) {
+    await assertCaveatExists(ctx, args.caveatName);
+  } else if (args.caveatContext !== undefined) {
+    throw new Error("caveatContext requires a caveatName");
+  }
+
+  const validationMode = await getTupleValidationMode(ctx);
+  if (validationMode !== "off") {
+    const violation = await findSchemaViolation(ctx, args);
+    if (violation) {
+      const message = `Invalid tuple ${describeTuple(args)}: ${violation}`;
+      if (validationMode === "enforce") {
+        throw new Error(message);
+      }
+      console.warn(message);
     }
+  }
+
+  // Check for existing tuple (idempotent write)
+  const existing = await findTuple(ctx, args);
+
+  if (existing) {
+    const changed =
+      existing.expiresAt !== args.expiresAt ||
+      existing.caveatName !== args.caveatName ||
+      JSON.stringify(existing.caveatContext) !== JSON.stringify(args.caveatContext);
+
+    const tupleId = await updateRow(
+      ctx,
+      "tuples",
+      existing,
+      changed
+        ? { expiresAt: args.expiresAt, caveatName: args.caveatName, caveatContext: args.caveatContext }
+        : {}
+    );
+    if (tupleId !== existing._id || existing.expiresAt !== args.expiresAt) {
+      await scheduleExpiry(ctx, tupleId, args.expiresAt);
+    }
+    return tupleId;
+  }
+
+  // Insert new tuple
+  const tupleId = await ctx.db.insert("tuples", {
+    objectType: args.objectType,
+    objectId: args.objectId,
+    relation: args.relation,
+    subjectType: args.subjectType,
+    subjectId: args.subjectId,
+    subjectRelation: args.subjectRelation,
+    expiresAt: args.expiresAt,
+    caveatName: args.caveatName,
+    caveatContext: args.caveatContext,
+  });
+  await scheduleExpiry(ctx, tupleId, args.expiresAt);
+  return tupleId;
+}
+
+/**
+ * Schedule a tuple's delete at its `expiresAt`, if it has one
+ *
+ * Queries only re-run when the rows they read change, so without the
+ * delete a subscribed check would keep granting access after expiry.
+ */
+async function scheduleExpiry(ctx: MutationCtx, tupleId: Id<"tuples">, expiresAt: number | undefined) {
+  if (expiresAt !== undefined) {
+    await ctx.scheduler.runAt(expiresAt, internal.tuples.deleteIfExpired, { tupleId });
+  }
+}
 
-    // Insert new tuple
-    return await ctx.db.insert("tuples", {
-      objectType: args.objectType,
-      objectId: args.objectId,
-      relation: args.relation,
-      subjectType: args.subjectType,
-      subjectId: args.subjectId,
-    });
+/**
+ * Delete a tuple scheduled by `scheduleExpiry`, unless it was deleted or its
+ * expiry was extended or removed since
+ */
+export const deleteIfExpired = internalMutation({
+  args: { tupleId: v.id("tuples") },
+  returns: v.null(),
+  handler: async (ctx, { tupleId }) => {
+    const tuple = await ctx.db.get(tupleId);
+    if (tuple && isExpired(tuple, Date.now())) {
+      await ctx.db.delete(tupleId);
+    }
+    return null;
   },
 });
 
+/**
+ * Look up the stored copy of a tuple by its identity
+ * (object, relation, subject and subject relation)
+ */
+async function findTuple(
+  ctx: QueryCtx,
+  args: {
+    objectType: string;
+    objectId: string;
+    relation: string;
+    subjectType: string;
+    subjectId: string;
+    subjectRelation?: string;
+  }
+) {
+  return await ctx.db
+    .query("tuples")
+    .withIndex("by_tuple", (q) =>
+      q
+        .eq("objectType", args.objectType)
+        .eq("objectId", args.objectId)
+        .eq("relation", args.relation)
+        .eq("subjectType", args.subjectType)
+        .eq("subjectId", args.subjectId)
+        .eq("subjectRelation", args.subjectRelation)
+    )
+    .first();
+}
+
+/**
+ * Ensure a wildcard subject is allowed for the relation
+ *
+ * The relation must be registered on the object type with
+ * `allowWildcard: true`, and the subject type must be one of its target types.
+ */
+async function assertWildcardAllowed(
+  ctx: MutationCtx,
+  args: {
+    objectType: string;
+    relation: string;
+    subjectType: string;
+    subjectRelation?: string;
+  }
+) {
+  const wildcard = `${args.subjectType}:${WILDCARD_SUBJECT_ID}`;
+
+  if (args.subjectRelation !== undefined) {
+    throw new Error(`Wildcard subject ${wildcard} cannot have a subject relation`);
+  }
+
+  const objectType = await ctx.db
+    .query("object_types")
+    .withIndex("by_name", (q) => q.eq("name", args.objectType))
+    .first();
+  const relation = objectType?.relations.find((r) => r.name === args.relation);
+
+  if (!relation?.allowWildcard) {
+    throw new Error(
+      `Wildcard subject ${wildcard} not allowed on ${args.objectType}.${args.relation} ` +
+        `(register the relation with allowWildcard: true)`
+    );
+  }
+  const targets = relationTargets(relation);
+  if (!targets.some((t) => t.type === args.subjectType && t.relation === undefined)) {
+    throw new Error(
+      `Wildcard subject ${wildcard} does not match ${args.objectType}.${args.relation} ` +
+        `target types: ${targets.map(formatTargetType).join(", ")}`
+    );
+  }
+}
+
+/**
+ * Check a tuple against the object type registry
+ *
+ * The relation must be declared on the object type, and the subject must
+ * be one of its target types: a plain subject matches { type }, a userset
+ * "team:eng#member" matches { type: "team", relation: "member" }.
+ *
+ * @returns Why the tuple is invalid, or null if it's valid
+ */
+async function findSchemaViolation(
+  ctx: MutationCtx,
+  args: {
+    objectType: string;
+    relation: string;
+    subjectType: string;
+    subjectRelation?: string;
+  }
+): Promise<string | null> {
+  const objectType = await ctx.db
+    .query("object_types")
+    .withIndex("by_name", (q) => q.eq("name", args.objectType))
+    .first();
+
+  if (!objectType) {
+    return `object type "${args.objectType}" is not registered`;
+  }
+
+  const relation = objectType.relations.find((r) => r.name === args.relation);
+  if (!relation) {
+    const declared = objectType.relations.map((r) => r.name).join(", ") || "none";
+    return `relation "${args.relation}" is not declared on "${args.objectType}" (declared: ${declared})`;
+  }
+
+  const targets = relationTargets(relation);
+  const subject = { type: args.subjectType, relation: args.subjectRelation };
+  if (targets.some((t) => t.type === subject.type && t.relation === subject.relation)) {
+    return null;
+  }
+  return (
+    `${args.objectType}.${args.relation} allows ${targets.map(formatTargetType).join(", ")}, ` +
+    `got "${formatTargetType(subject)}"`
+  );
+}
+
+/**
+ * Format a tuple for error messages: (resource:studio-a, viewer, org:acme#member_of)
+ */
+function describeTuple(args: {
+  objectType: string;
+  objectId: string;
+  relation: string;
+  subjectType: string;
+  subjectId: string;
+  subjectRelation?: string;
+}): string {
+  const subject = `${args.subjectType}:${args.subjectId}`;
+  const userset = args.subjectRelation !== undefined ? `#${args.subjectRelation}` : "";
+  return `(${args.objectType}:${args.objectId}, ${args.relation}, ${subject}${userset})`;
+}
+
+/**
+ * Format a tuple filter for error messages: {objectType: "resource", objectId: "studio-a"}
+ */
+function describeFilter(filter: TupleFilter): string {
+  const fields = Object.entries(filter)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => `${field}: ${JSON.stringify(value)}`);
+  return `{${fields.join(", ")}}`;
+}
+
+/**
+ * Ensure a tuple's caveat is defined
+ */
+async function assertCaveatExists(ctx: MutationCtx, caveatName: string) {
+  const caveat = await ctx.db
+    .query("caveats")
+    .withIndex("by_name", (q) => q.eq("name", caveatName))
+    .first();
+
+  if (!caveat) {
+    throw new Error(`Unknown caveat "${caveatName}" (define it with defineCaveat first)`);
+  }
+}
+
 /**
  * Delete a relationship tuple
  *
@@ -73,20 +461,11 @@ export const remove = mutation({
     relation: v.string(),
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()), // Userset: "org:acme#member_of"
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("tuples")
-      .withIndex("by_tuple", (q) =>
-        q
-          .eq("objectType", args.objectType)
-          .eq("objectId", args.objectId)
-          .eq("relation", args.relation)
-          .eq("subjectType", args.subjectType)
-          .eq("subjectId", args.subjectId)
-      )
-      .first();
+    const existing = await findTuple(ctx, args);
 
     if (!existing) {
       return false;
@@ -97,31 +476,140 @@ export const remove = mutation({
   },
 });
 
+/**
+ * One update in a `writeTuples` batch
+ *
+ * - "create": insert the tuple; fails if it already exists
+ * - "touch": insert the tuple, or update the existing one's expiry and
+ *   caveat (same as `write`)
+ * - "delete": delete the tuple if it exists (same as `remove`; expiry and
+ *   caveat fields are ignored)
+ */
+export const tupleUpdateValidator = v.object({
+  operation: v.union(v.literal("create"), v.literal("touch"), v.literal("delete")),
+  tuple: tupleValidator,
+});
+
+/**
+ * A condition that must hold before a `writeTuples` batch is applied
+ *
+ * - "mustMatch": at least one unexpired tuple matches `filter`
+ * - "mustNotMatch": no unexpired tuple matches `filter`
+ *
+ * `filter` follows the same prefix rules as `readTuples`; set every field
+ * (with `subjectRelation: null` for a plain subject) to test for one exact
+ * tuple.
+ */
+export const tuplePreconditionValidator = v.object({
+  operation: v.union(v.literal("mustMatch"), v.literal("mustNotMatch")),
+  filter: tupleFilterValidator,
+});
+
+/**
+ * Apply several tuple updates atomically (all or nothing)
+ *
+ * Updates run in order in one transaction, so later updates see earlier
+ * ones. If any update fails, nothing is written and a ConvexError is thrown
+ * with data `{ code: "TupleUpdateFailed", message, index, operation }`,
+ * where `index` is the position of the failing update.
+ *
+ * `preconditions` are checked against the stored tuples before any update;
+ * if one doesn't hold nothing is written and a ConvexError is thrown with
+ * data `{ code: "PreconditionFailed", message, index, precondition }`. A
+ * filter that isn't an index prefix throws `{ code: "InvalidTupleFilter" }`.
+ *
+ * @returns Per update: the tuple id for "create" / "touch", and for
+ * "delete" whether the tuple existed
+ *
+ * @example
+ * // Move a resource to another org
+ * writeTuples([
+ *   { operation: "delete", tuple: { objectType: "resource", objectId: "studio-a", relation: "owner", subjectType: "org", subjectId: "acme" } },
+ *   { operation: "create", tuple: { objectType: "resource", objectId: "studio-a", relation: "owner", subjectType: "org", subjectId: "beta" } },
+ * ], [
+ *   // ...only if acme still owns it
+ *   { operation: "mustMatch", filter: { objectType: "resource", objectId: "studio-a", relation: "owner", subjectType: "org", subjectId: "acme", subjectRelation: null } },
+ * ])
+ */
+export const writeTuples = mutation({
+  args: {
+    updates: v.array(tupleUpdateValidator),
+    preconditions: v.optional(v.array(tuplePreconditionValidator)),
+  },
+  returns: v.array(v.union(v.id("tuples"), v.boolean())),
+  handler: async (ctx, { updates, preconditions }) => {
+    const now = Date.now();
+    for (const [index, precondition] of (preconditions ?? []).entries()) {
+      const match = await queryTuples(ctx, precondition.filter)
+        .filter((q) => q.or(q.eq(q.field("expiresAt"), undefined), q.gt(q.field("expiresAt"), now)))
+        .first();
+
+      if ((match !== null) !== (precondition.operation === "mustMatch")) {
+        const expected = precondition.operation === "mustMatch" ? "a tuple to match" : "no tuple to match";
+        throw new ConvexError({
+          code: "PreconditionFailed",
+          message: `Precondition ${index} failed: expected ${expected} ${describeFilter(precondition.filter)}`,
+          index,
+          precondition,
+        });
+      }
+    }
+
+    const results: Array<Id<"tuples"> | boolean> = [];
+
+    for (const [index, { operation, tuple }] of updates.entries()) {
+      try {
+        if (operation === "delete") {
+          const existing = await findTuple(ctx, tuple);
+          if (existing) await ctx.db.delete(existing._id);
+          results.push(existing !== null);
+        } else {
+          if (operation === "create" && (await findTuple(ctx, tuple))) {
+            throw new Error("tuple already exists");
+          }
+          results.push(await writeTuple(ctx, tuple));
+        }
+      } catch (error) {
+        // Throwing rolls back the updates already applied
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ConvexError({
+          code: "TupleUpdateFailed",
+          message: `Update ${index} (${operation} ${describeTuple(tuple)}) failed: ${reason}`,
+          index,
+          operation,
+        });
+      }
+    }
+
+    return results;
+  },
+});
+
+/**
+ * Result of a batched delete: the count deleted in this transaction, and
+ * `isDone: false` if the rest is left to scheduled batches
+ */
+const batchDeleteResultValidator = v.object({
+  deleted: v.number(),
+  isDone: v.boolean(),
+});
+
 /**
  * Delete all tuples for an object
  *
  * Useful when deleting a resource - removes all associated permissions.
- * Returns the count of deleted tuples.
+ * Deletes up to 500 tuples now; if there are more, `isDone` is false and
+ * the rest are deleted by scheduled batches (see `deleteTuples`), so
+ * `deleted` only counts this first batch.
  */
 export const removeAllForObject = mutation({
   args: {
     objectType: v.string(),
     objectId: v.string(),
   },
-  returns: v.number(),
+  returns: batchDeleteResultValidator,
   handler: async (ctx, args) => {
-    const tuples = await ctx.db
-      .query("tuples")
-      .withIndex("by_object", (q) =>
-        q.eq("objectType", args.objectType).eq("objectId", args.objectId)
-      )
-      .collect();
-
-    for (const tuple of tuples) {
-      await ctx.db.delete(tuple._id);
-    }
-
-    return tuples.length;
+    return await deleteTuplesInBatches(ctx, args, DEFAULT_DELETE_BATCH_SIZE, null);
   },
 });
 
@@ -129,46 +617,150 @@ export const removeAllForObject = mutation({
  * Delete all tuples for a subject
  *
  * Useful when deleting a user - removes all their permissions.
- * Returns the count of deleted tuples.
+ * Deletes up to 500 tuples now; if there are more, `isDone` is false and
+ * the rest are deleted by scheduled batches (see `deleteTuples`), so
+ * `deleted` only counts this first batch.
  */
 export const removeAllForSubject = mutation({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
   },
+  returns: batchDeleteResultValidator,
+  handler: async (ctx, args) => {
+    return await deleteTuplesInBatches(ctx, args, DEFAULT_DELETE_BATCH_SIZE, null);
+  },
+});
+
+const DEFAULT_DELETE_BATCH_SIZE = 500;
+
+/**
+ * Delete every tuple matching a filter, in batches
+ *
+ * The filter may combine any of the `tupleFilterValidator` fields (at least
+ * one). Each batch reads at most `batchSize` tuples from the index covering
+ * the filter's longest prefix, deletes those matching the other fields, and
+ * if the range isn't exhausted schedules itself with the next `cursor`, so
+ * neither large deletes nor filters that aren't a prefix hit transaction
+ * limits. Callers omit `cursor`.
+ *
+ * @returns The count deleted by this batch, and `isDone: false` if a
+ * continuation was scheduled
+ *
+ * @example
+ * // Remove every viewer tuple on resources for user:bob
+ * deleteTuples({ objectType: "resource", relation: "viewer", subjectType: "user", subjectId: "bob" })
+ * // → { deleted: 12, isDone: true }
+ */
+export const deleteTuples = mutation({
+  args: {
+    ...tupleFilterValidator.fields,
+    batchSize: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+  },
+  returns: batchDeleteResultValidator,
+  handler: async (ctx, { batchSize: requested, cursor, ...filter }) => {
+    if (Object.values(filter).every((value) => value === undefined)) {
+      throw new Error("deleteTuples needs at least one filter field (use clearAll to delete every tuple)");
+    }
+    const batchSize = requested ?? DEFAULT_DELETE_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer (got ${batchSize})`);
+    }
+    return await deleteTuplesInBatches(ctx, filter, batchSize, cursor ?? null);
+  },
+});
+
+/**
+ * Scan up to `batchSize` tuples of the filter's index range from `cursor`,
+ * delete the matching ones, and schedule `deleteTuples` for the rest
+ */
+async function deleteTuplesInBatches(
+  ctx: MutationCtx,
+  filter: TupleFilter,
+  batchSize: number,
+  cursor: string | null
+) {
+  const { query, matches } = splitFilter(ctx, filter);
+  const { page, isDone, continueCursor } = await query.paginate({ numItems: batchSize, cursor });
+
+  let deleted = 0;
+  for (const tuple of page) {
+    if (!matches(tuple)) continue;
+    await ctx.db.delete(tuple._id);
+    deleted++;
+  }
+
+  if (!isDone) {
+    await ctx.scheduler.runAfter(0, api.tuples.deleteTuples, { ...filter, batchSize, cursor: continueCursor });
+  }
+
+  return { deleted, isDone };
+}
+
+const DEFAULT_PURGE_BATCH_SIZE = 500;
+
+/**
+ * Delete expired tuples in batches
+ *
+ * Deletes up to `batchSize` tuples whose `expiresAt` has passed and, if
+ * more remain, schedules itself to continue. Call it from a cron in your
+ * app as a backstop for tuples whose scheduled delete (see `write`) didn't
+ * run.
+ * Returns the count of tuples deleted by this batch.
+ *
+ * @example
+ * // convex/crons.ts
+ * crons.hourly("purge expired tuples", { minuteUTC: 0 }, internal.app.purgeExpiredTuples);
+ */
+export const purgeExpired = mutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
   returns: v.number(),
   handler: async (ctx, args) => {
-    const tuples = await ctx.db
+    const batchSize = args.batchSize ?? DEFAULT_PURGE_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer (got ${batchSize})`);
+    }
+
+    const expired = await ctx.db
       .query("tuples")
-      .withIndex("by_subject", (q) =>
-        q.eq("subjectType", args.subjectType).eq("subjectId", args.subjectId)
+      .withIndex("by_expiry", (q) =>
+        q.gt("expiresAt", 0).lte("expiresAt", Date.now())
       )
-      .collect();
+      .take(batchSize);
 
-    for (const tuple of tuples) {
+    for (const tuple of expired) {
       await ctx.db.delete(tuple._id);
     }
 
-    return tuples.length;
+    if (expired.length === batchSize) {
+      await ctx.scheduler.runAfter(0, api.tuples.purgeExpired, { batchSize });
+    }
+
+    return expired.length;
   },
 });
 
 /**
  * Delete ALL tuples in the database
  *
- * Use with caution - this removes all permissions!
- * Returns the count of deleted tuples.
+ * Use with caution - this removes all permissions! Requires
+ * `confirm: "DELETE_ALL_TUPLES"`.
+ *
+ * Runs as a background job in batches of `batchSize` (see jobs.ts): the
+ * tuples that exist now are deleted, tuples written afterwards (including
+ * existing tuples written again) are kept. Returns the job id; poll
+ * `jobs.getJob` for progress.
  */
 export const clearAll = mutation({
-  args: {},
-  returns: v.number(),
-  handler: async (ctx) => {
-    const tuples = await ctx.db.query("tuples").collect();
-
-    for (const tuple of tuples) {
-      await ctx.db.delete(tuple._id);
-    }
-
-    return tuples.length;
+  args: {
+    confirm: v.literal("DELETE_ALL_TUPLES"),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    return await startClearJob(ctx, "clearTuples", args.batchSize);
   },
 });